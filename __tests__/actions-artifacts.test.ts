@@ -0,0 +1,398 @@
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import { createHash } from "node:crypto";
+import * as os from "node:os";
+import * as path from "node:path";
+import { text } from "node:stream/consumers";
+import * as fs from "fs-extra";
+import {
+	createActionsArtifactsStorage,
+	getActionsRuntime,
+	toArtifactName,
+} from "../src/actions-artifacts";
+import {
+	closeMockServers,
+	createTestManifest,
+	startMockServer,
+} from "./helpers";
+
+interface MockArtifact {
+	id: number;
+	name: string;
+	size_in_bytes: number;
+	created_at: string;
+	expired: boolean;
+	content: Buffer;
+	hash?: string;
+}
+
+const artifactService = "/twirp/github.actions.results.api.v1.ArtifactService";
+
+/**
+ * Minimal implementation of the artifact REST endpoints, the results Twirp
+ * service and a blob store
+ */
+async function startMockGitHub() {
+	const artifacts: MockArtifact[] = [];
+	const pendingUploads = new Map<string, Buffer>();
+	const permissions = { write: true };
+	let nextId = 1;
+
+	const { url: baseUrl, requests } = await startMockServer({
+		"GET /repos/o/r/actions/artifacts": ({ url }) => {
+			const name = url.searchParams.get("name");
+			const matching = artifacts.filter(
+				(artifact) => !name || artifact.name === name,
+			);
+			return [
+				200,
+				{
+					total_count: matching.length,
+					artifacts: matching.map(({ content: _content, ...artifact }) => ({
+						...artifact,
+						archive_download_url: `${url.origin}/repos/o/r/actions/artifacts/${artifact.id}/zip`,
+					})),
+				},
+			];
+		},
+		[`POST ${artifactService}/CreateArtifact`]: ({ url, body }) => {
+			const { name } = JSON.parse(body.toString());
+			return [
+				200,
+				{ ok: true, signed_upload_url: `${url.origin}/upload/${name}` },
+			];
+		},
+		[`POST ${artifactService}/FinalizeArtifact`]: ({ body }) => {
+			const { name, hash } = JSON.parse(body.toString());
+			const content = pendingUploads.get(name) ?? Buffer.alloc(0);
+			const artifact: MockArtifact = {
+				id: nextId++,
+				name,
+				size_in_bytes: content.length,
+				created_at: new Date(Date.now() + nextId * 1000).toISOString(),
+				expired: false,
+				content,
+				hash: hash.value,
+			};
+			artifacts.push(artifact);
+			return [200, { ok: true, artifact_id: String(artifact.id) }];
+		},
+		"*": ({ method, path, url, body }) => {
+			const zipMatch = path.match(
+				/^\/repos\/o\/r\/actions\/artifacts\/(\d+)\/zip$/,
+			);
+			if (zipMatch && method === "GET") {
+				return [302, "", { location: `${url.origin}/blobs/${zipMatch[1]}` }];
+			}
+			const artifactMatch = path.match(
+				/^\/repos\/o\/r\/actions\/artifacts\/(\d+)$/,
+			);
+			if (artifactMatch && method === "DELETE") {
+				if (!permissions.write) {
+					return [
+						403,
+						{ message: "Resource not accessible by integration" },
+						{ "x-accepted-github-permissions": "actions=write" },
+					];
+				}
+				const index = artifacts.findIndex(
+					(artifact) => artifact.id === Number(artifactMatch[1]),
+				);
+				artifacts.splice(index, 1);
+				return [204, ""];
+			}
+			if (path.startsWith("/blobs/")) {
+				const content =
+					artifacts.find(
+						(artifact) => artifact.id === Number(path.split("/")[2]),
+					)?.content ?? Buffer.alloc(0);
+				return [200, content, { "content-length": content.length }];
+			}
+			if (path.startsWith("/upload/") && method === "PUT") {
+				pendingUploads.set(decodeURIComponent(path.slice(8)), body);
+				return [201, ""];
+			}
+			return undefined;
+		},
+	});
+
+	return { baseUrl, requests, artifacts, permissions };
+}
+
+function createRuntimeToken(scope: string): string {
+	const encode = (value: object) =>
+		Buffer.from(JSON.stringify(value)).toString("base64url");
+	return `${encode({ alg: "none" })}.${encode({ scp: scope })}.signature`;
+}
+
+let mock: Awaited<ReturnType<typeof startMockGitHub>>;
+let baseUrl = "";
+const tempRoots: string[] = [];
+const originalEnv = { ...process.env };
+
+beforeAll(async () => {
+	mock = await startMockGitHub();
+	baseUrl = mock.baseUrl;
+});
+
+afterAll(closeMockServers);
+
+afterEach(async () => {
+	process.env = { ...originalEnv };
+	mock.artifacts.splice(0);
+	mock.requests.splice(0);
+	mock.permissions.write = true;
+	for (const root of tempRoots.splice(0)) {
+		await fs.remove(root).catch(() => {});
+	}
+});
+
+function useActionsRuntime() {
+	process.env.ACTIONS_RESULTS_URL = `${baseUrl}/`;
+	process.env.ACTIONS_RUNTIME_TOKEN = createRuntimeToken(
+		"Actions.ExampleScope Actions.Results:run-id:job-id",
+	);
+}
+
+async function writeTempFile(name: string, content: string): Promise<string> {
+	const root = await fs.mkdtemp(path.join(os.tmpdir(), "eggl-artifacts-"));
+	tempRoots.push(root);
+	const filePath = path.join(root, name);
+	await fs.writeFile(filePath, content);
+	return filePath;
+}
+
+describe("getActionsRuntime", () => {
+	test("throws outside of a workflow job", () => {
+		delete process.env.ACTIONS_RESULTS_URL;
+		delete process.env.ACTIONS_RUNTIME_TOKEN;
+
+		expect(() => getActionsRuntime()).toThrow("requires a workflow job");
+	});
+
+	test("reads the run and job IDs from the runtime token", () => {
+		useActionsRuntime();
+
+		expect(getActionsRuntime()).toMatchObject({
+			workflowRunBackendId: "run-id",
+			workflowJobRunBackendId: "job-id",
+		});
+	});
+});
+
+describe("toArtifactName", () => {
+	test("replaces characters artifact names may not contain", () => {
+		expect(toArtifactName("app/ios:abc")).toBe("app_ios_abc");
+	});
+
+	test("appends the build name to the key", () => {
+		expect(toArtifactName("app/ios/abc", "ios-device.app.tar.gz")).toBe(
+			"app_ios_abc@ios-device.app.tar.gz",
+		);
+	});
+});
+
+describe("createActionsArtifactsStorage", () => {
+	const createStorage = () =>
+		createActionsArtifactsStorage({
+			token: "token",
+			owner: "o",
+			repo: "r",
+			apiUrl: baseUrl,
+		});
+
+	test("returns null when no artifact matches the key", async () => {
+		expect(await createStorage().lookup("fingerprint.abc.ios")).toBeNull();
+	});
+
+	test("uploads a build and resolves it by fingerprint name", async () => {
+		useActionsRuntime();
+		const apkPath = await writeTempFile("app.apk", "fake-apk");
+		const storage = createStorage();
+
+		await storage.upload({
+			key: "fingerprint.abc.android",
+			filePath: apkPath,
+			name: "app.apk",
+			manifest: createTestManifest(),
+		});
+
+		expect(mock.artifacts[0]?.hash).toBe(
+			`sha256:${createHash("sha256").update("fake-apk").digest("hex")}`,
+		);
+
+		const entry = await storage.lookup("fingerprint.abc.android");
+		expect(entry?.size).toBe(8);
+
+		const { body } = await storage.download(entry!);
+		expect(await text(body as NodeJS.ReadableStream & AsyncIterable<any>)).toBe(
+			"fake-apk",
+		);
+	});
+
+	test("stores the manifest as a separate artifact", async () => {
+		useActionsRuntime();
+		const storage = createStorage();
+		const manifest = createTestManifest({ fileName: "app.apk" });
+
+		await storage.upload({
+			key: "fingerprint.abc.android",
+			filePath: await writeTempFile("app.apk", "apk"),
+			name: "app.apk",
+			manifest,
+		});
+
+		expect(mock.artifacts.map((artifact) => artifact.name)).toEqual([
+			"fingerprint.abc.android@app.apk",
+			"fingerprint.abc.android@app.apk.manifest.json",
+		]);
+		expect(
+			await storage.fetchManifest?.("fingerprint.abc.android", "app.apk"),
+		).toEqual(manifest);
+		expect((await storage.list()).map((entry) => entry.key)).toEqual([
+			"fingerprint.abc.android",
+		]);
+	});
+
+	test("replaces the artifact uploaded under the same name", async () => {
+		useActionsRuntime();
+		const storage = createStorage();
+
+		await storage.upload({
+			key: "fingerprint.abc.android",
+			filePath: await writeTempFile("old.apk", "old"),
+			name: "app.apk",
+			manifest: createTestManifest(),
+		});
+		await storage.upload({
+			key: "fingerprint.abc.android",
+			filePath: await writeTempFile("new.apk", "newer"),
+			name: "app.apk",
+			manifest: createTestManifest(),
+		});
+
+		expect(
+			(await storage.lookup("fingerprint.abc.android", { name: "app.apk" }))
+				?.size,
+		).toBe(5);
+		expect(mock.artifacts).toHaveLength(2);
+	});
+
+	test("selects one of several builds stored under a key", async () => {
+		useActionsRuntime();
+		const storage = createStorage();
+
+		for (const name of ["ios-simulator.app.tar.gz", "ios-device.app.tar.gz"]) {
+			await storage.upload({
+				key: "fingerprint.abc.ios",
+				filePath: await writeTempFile(name, name),
+				name,
+				manifest: createTestManifest({ platform: "ios", fileName: name }),
+			});
+		}
+
+		const entry = await storage.lookup("fingerprint.abc.ios", {
+			name: "ios-device.app.tar.gz",
+		});
+		expect(entry?.name).toBe("ios-device.app.tar.gz");
+		expect((await storage.list()).map((listed) => listed.key)).toEqual([
+			"fingerprint.abc.ios",
+			"fingerprint.abc.ios",
+		]);
+	});
+
+	test("looks up builds by artifact name without listing all artifacts", async () => {
+		mock.artifacts.push({
+			id: 1,
+			name: "fingerprint.abc.android",
+			size_in_bytes: 3,
+			created_at: new Date().toISOString(),
+			expired: false,
+			content: Buffer.from("apk"),
+		});
+		const storage = createStorage();
+		const selector = { name: "android.apk", extensions: [".apk"] };
+
+		expect(
+			(await storage.lookup("fingerprint.abc.android", selector))?.size,
+		).toBe(3);
+		expect(
+			await storage.lookup("fingerprint.def.android", selector),
+		).toBeNull();
+		expect(
+			mock.requests.map((request) => request.url.searchParams.get("name")),
+		).toEqual([
+			"fingerprint.abc.android@android.apk",
+			"fingerprint.abc.android",
+			"fingerprint.def.android@android.apk",
+			"fingerprint.def.android",
+		]);
+	});
+
+	test("lists and deletes cache artifacts", async () => {
+		useActionsRuntime();
+		const storage = createStorage();
+		const apkPath = await writeTempFile("app.apk", "apk");
+
+		await storage.upload({
+			key: "fingerprint.abc.android",
+			filePath: apkPath,
+			name: "app.apk",
+			manifest: createTestManifest(),
+		});
+		await storage.upload({
+			key: "fingerprint.def.android",
+			filePath: apkPath,
+			name: "app.apk",
+			manifest: createTestManifest(),
+		});
+
+		expect((await storage.list()).map((entry) => entry.key).sort()).toEqual([
+			"fingerprint.abc.android",
+			"fingerprint.def.android",
+		]);
+
+		expect(await storage.delete("fingerprint.abc.android")).toBe(true);
+		expect(await storage.delete("fingerprint.abc.android")).toBe(false);
+		expect((await storage.list()).map((entry) => entry.key)).toEqual([
+			"fingerprint.def.android",
+		]);
+	});
+
+	test("explains deletes without actions write permission", async () => {
+		useActionsRuntime();
+		const storage = createStorage();
+		await storage.upload({
+			key: "fingerprint.abc.android",
+			filePath: await writeTempFile("app.apk", "apk"),
+			name: "app.apk",
+			manifest: createTestManifest(),
+		});
+		mock.permissions.write = false;
+
+		await expect(storage.delete("fingerprint.abc.android")).rejects.toThrow(
+			'Fine-grained tokens need the "Actions: Read and write" repository permission',
+		);
+	});
+
+	test("refuses to upload outside of a workflow job", async () => {
+		delete process.env.ACTIONS_RESULTS_URL;
+		delete process.env.ACTIONS_RUNTIME_TOKEN;
+		const apkPath = await writeTempFile("app.apk", "apk");
+
+		await expect(
+			createStorage().upload({
+				key: "fingerprint.abc.android",
+				filePath: apkPath,
+				name: "app.apk",
+				manifest: createTestManifest(),
+			}),
+		).rejects.toThrow("requires a workflow job");
+	});
+});
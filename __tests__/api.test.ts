@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import {
+	computeTagName,
+	listCachedBuilds,
+	publishBuild,
+	resolveBuild,
+} from "../src/index";
+import { createLocalStorage } from "../src/local-storage";
+import { createTestManifest, useTemporaryDirectory } from "./helpers";
+
+// Real project root so getPackageJson (via isDevClientBuild → getTagName) does not throw.
+const testProjectRoot = path.join(import.meta.dir, "..");
+
+describe("computeTagName", () => {
+	test("computes the cache key without Expo props", () => {
+		expect(
+			computeTagName({
+				projectRoot: testProjectRoot,
+				platform: "ios",
+				fingerprintHash: "abc123",
+			}),
+		).toBe("fingerprint.abc123.ios");
+	});
+
+	test("includes the build variant and tag options", () => {
+		expect(
+			computeTagName({
+				projectRoot: testProjectRoot,
+				platform: "android",
+				fingerprintHash: "abc123",
+				variant: "release",
+				options: { tagPrefix: "build." },
+			}),
+		).toBe("build.abc123.release.android");
+	});
+});
+
+describe("listCachedBuilds", () => {
+	const getRoot = useTemporaryDirectory("eggl-api-test-");
+
+	test("filters by the platform parsed from the cache key", async () => {
+		const root = getRoot();
+		const apkPath = path.join(root, "app.apk");
+		await fs.writeFile(apkPath, "fake-apk");
+		const options = {
+			owner: "owner",
+			repo: "repo",
+			storage: createLocalStorage({ root: path.join(root, "store") }),
+		};
+
+		// A fingerprint hash containing "ios" does not make an Android build an iOS one
+		await options.storage.upload({
+			key: "fingerprint.iosabc.android",
+			filePath: apkPath,
+			name: "app.apk",
+			manifest: createTestManifest(),
+		});
+
+		expect(await listCachedBuilds({ options, platform: "ios" })).toEqual([]);
+		expect(
+			(await listCachedBuilds({ options, platform: "android" })).map(
+				(entry) => entry.key,
+			),
+		).toEqual(["fingerprint.iosabc.android"]);
+	});
+});
+
+describe("publishBuild and resolveBuild", () => {
+	const getRoot = useTemporaryDirectory("eggl-api-test-");
+
+	test("round-trip a build through the storage backend", async () => {
+		const root = getRoot();
+		const apkPath = path.join(root, "app-release.apk");
+		await fs.writeFile(apkPath, "fake-apk");
+
+		const build = {
+			projectRoot: testProjectRoot,
+			platform: "android" as const,
+			fingerprintHash: "api",
+			variant: "release",
+			options: {
+				owner: "owner",
+				repo: "repo",
+				storage: createLocalStorage({ root: path.join(root, "store") }),
+				recordStats: false,
+			},
+		};
+
+		expect(await publishBuild({ ...build, buildPath: apkPath })).not.toBeNull();
+
+		const entries = await listCachedBuilds({
+			options: build.options,
+			fingerprintHash: build.fingerprintHash,
+		});
+		expect(entries.map((entry) => entry.key)).toEqual([computeTagName(build)]);
+		expect(
+			await listCachedBuilds({ options: build.options, platform: "ios" }),
+		).toEqual([]);
+
+		const cachedPath = await resolveBuild(build);
+		expect(cachedPath).not.toBeNull();
+		expect(cachedPath!.startsWith(root)).toBe(true);
+		expect(await fs.readFile(cachedPath!, "utf8")).toBe("fake-apk");
+	});
+});
@@ -0,0 +1,169 @@
+import { describe, expect, test } from "bun:test";
+import {
+	detectBuildType,
+	detectIosBuildTarget,
+	getBuildArtifactName,
+	getBuildArtifactSelector,
+	getExpectedBuildType,
+	selectArtifact,
+} from "../src/artifacts";
+
+const assets = (...names: string[]) => names.map((name) => ({ name }));
+
+describe("getBuildArtifactName", () => {
+	test("names builds after platform, format and target", () => {
+		expect(
+			getBuildArtifactName({
+				platform: "ios",
+				format: "app",
+				target: "simulator",
+			}),
+		).toBe("ios-simulator.app.tar.gz");
+		expect(
+			getBuildArtifactName({
+				platform: "ios",
+				format: "app",
+				target: "device",
+			}),
+		).toBe("ios-device.app.tar.gz");
+		expect(
+			getBuildArtifactName({
+				platform: "ios",
+				format: "ipa",
+				target: "device",
+			}),
+		).toBe("ios-device.ipa");
+		expect(getBuildArtifactName({ platform: "android", format: "apk" })).toBe(
+			"android.apk",
+		);
+		expect(getBuildArtifactName({ platform: "android", format: "aab" })).toBe(
+			"android.aab",
+		);
+	});
+});
+
+describe("getExpectedBuildType", () => {
+	test("restores simulator .app bundles and APKs by default", () => {
+		expect(getExpectedBuildType("ios", {})).toEqual({
+			platform: "ios",
+			format: "app",
+			target: "simulator",
+		});
+		expect(getExpectedBuildType("android", {})).toEqual({
+			platform: "android",
+			format: "apk",
+		});
+	});
+
+	test("restores .ipa files as device builds", () => {
+		expect(
+			getExpectedBuildType("ios", {
+				iosArtifactFormat: "ipa",
+				iosBuildTarget: "simulator",
+			}).target,
+		).toBe("device");
+	});
+});
+
+describe("detectBuildType", () => {
+	test("detects file formats from the extension", () => {
+		expect(detectBuildType("ios", "/out/App.ipa", {})).toEqual({
+			platform: "ios",
+			format: "ipa",
+			target: "device",
+		});
+		expect(detectBuildType("android", "/out/app-release.aab", {}).format).toBe(
+			"aab",
+		);
+		expect(detectBuildType("android", "/out/universal.apk", {}).format).toBe(
+			"apk",
+		);
+	});
+
+	test("reads the iOS target from the Xcode products directory", () => {
+		expect(
+			detectBuildType(
+				"ios",
+				"/DerivedData/Build/Products/Debug-iphoneos/App.app",
+				{},
+			).target,
+		).toBe("device");
+		expect(
+			detectBuildType("ios", "/tmp/App.app", { iosBuildTarget: "device" })
+				.target,
+		).toBe("device");
+	});
+
+	test("rejects builds of the wrong platform", () => {
+		expect(() => detectBuildType("android", "/out/App.ipa", {})).toThrow(
+			"expected an .apk or .aab file",
+		);
+		expect(() => detectBuildType("ios", "/out/app.apk", {})).toThrow(
+			"expected an .app bundle or .ipa file",
+		);
+	});
+});
+
+describe("detectIosBuildTarget", () => {
+	test("reads the target from the Xcode products directory", () => {
+		expect(
+			detectIosBuildTarget(
+				"/DerivedData/Build/Products/Debug-iphoneos/App.app",
+			),
+		).toBe("device");
+		expect(
+			detectIosBuildTarget(
+				"/DerivedData/Build/Products/Release-iphonesimulator/App.app",
+			),
+		).toBe("simulator");
+		expect(detectIosBuildTarget("/tmp/App.app")).toBeNull();
+	});
+});
+
+describe("selectArtifact", () => {
+	test("returns the first build without a selector and never a manifest", () => {
+		expect(
+			selectArtifact(assets("manifest.json", "App.app.tar.gz"))?.name,
+		).toBe("App.app.tar.gz");
+	});
+
+	test("prefers the artifact with the expected name", () => {
+		expect(
+			selectArtifact(
+				assets(
+					"ios-simulator.app.tar.gz",
+					"ios-simulator.app.tar.gz.manifest.json",
+					"ios-device.app.tar.gz",
+					"ios-device.ipa",
+				),
+				getBuildArtifactSelector({
+					platform: "ios",
+					format: "app",
+					target: "device",
+				}),
+			)?.name,
+		).toBe("ios-device.app.tar.gz");
+	});
+
+	test("falls back to legacy uploads with a matching extension", () => {
+		const selector = getBuildArtifactSelector({
+			platform: "ios",
+			format: "app",
+			target: "simulator",
+		});
+
+		expect(
+			selectArtifact(assets("notes.txt", "App.app.tar.gz"), selector)?.name,
+		).toBe("App.app.tar.gz");
+		// A build for another target is never returned
+		expect(selectArtifact(assets("ios-device.app.tar.gz"), selector)).toBe(
+			undefined,
+		);
+		expect(
+			selectArtifact(
+				assets("app-release.apk"),
+				getBuildArtifactSelector({ platform: "android", format: "aab" }),
+			),
+		).toBe(undefined);
+	});
+});
@@ -0,0 +1,60 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import * as path from "node:path";
+import { readPluginOptions, runCli } from "../src/cli";
+
+const testProjectRoot = path.join(import.meta.dir, "..");
+
+describe("runCli", () => {
+	test("prints the usage with --help", async () => {
+		const log = spyOn(console, "log").mockImplementation(() => {});
+		try {
+			expect(await runCli(["--help"])).toBe(0);
+			expect(log.mock.calls[0]?.[0]).toContain("Usage: expo-github-cache");
+		} finally {
+			log.mockRestore();
+		}
+	});
+
+	test("fails on unknown commands", async () => {
+		const log = spyOn(console, "log").mockImplementation(() => {});
+		const error = spyOn(console, "error").mockImplementation(() => {});
+		try {
+			expect(await runCli(["frobnicate"])).toBe(1);
+			expect(error.mock.calls[0]?.[0]).toContain(
+				'Unknown command "frobnicate"',
+			);
+		} finally {
+			log.mockRestore();
+			error.mockRestore();
+		}
+	});
+
+	test("requires a platform for download", async () => {
+		await expect(
+			runCli([
+				"download",
+				"abc",
+				"--project-root",
+				testProjectRoot,
+				"--owner",
+				"o",
+				"--repo",
+				"r",
+			]),
+		).rejects.toThrow("--platform must be either ios or android");
+	});
+
+	test("requires a fingerprint for upload", async () => {
+		await expect(
+			runCli(["upload", "app.apk", "--platform", "android"]),
+		).rejects.toThrow("Usage: expo-github-cache upload");
+	});
+});
+
+describe("readPluginOptions", () => {
+	test("uses --owner and --repo when the app config has no provider options", () => {
+		expect(
+			readPluginOptions(testProjectRoot, { owner: "o", repo: "r" }),
+		).toMatchObject({ owner: "o", repo: "r" });
+	});
+});
@@ -1,9 +1,25 @@
 import { afterEach, describe, expect, test } from "bun:test";
+import { createHash } from "node:crypto";
+import type * as http from "node:http";
 import * as os from "node:os";
 import * as path from "node:path";
+import { Readable } from "node:stream";
 import * as fs from "fs-extra";
 import { create as createTar } from "tar";
-import { extractAppFromLocalArchiveAsync } from "../src/download";
+import {
+	downloadAndMaybeExtractAppAsync,
+	downloadFileAsync,
+	extractAppFromLocalArchiveAsync,
+	openUrlDownloadStreamAsync,
+	verifyDownloadIntegrityAsync,
+} from "../src/download";
+import { getDownloadDirectory } from "../src/utils";
+import {
+	closeMockServers,
+	type MockReply,
+	type MockRequest,
+	startMockServer,
+} from "./helpers";
 
 const tempRoots: string[] = [];
 
@@ -153,3 +169,252 @@ describe("extractAppFromLocalArchiveAsync", () => {
 		).rejects.toThrow("Did not find any installable apps inside tarball.");
 	});
 });
+
+describe("verifyDownloadIntegrityAsync", () => {
+	const sha256 = (content: string) =>
+		createHash("sha256").update(content).digest("hex");
+
+	test("accepts files matching the expected checksum", async () => {
+		const root = await trackTempDir();
+		const filePath = path.join(root, "app.apk");
+		await fs.writeFile(filePath, "fake-apk");
+
+		await verifyDownloadIntegrityAsync(filePath, sha256("fake-apk"));
+
+		expect(await fs.pathExists(filePath)).toBe(true);
+	});
+
+	test("skips verification when no checksum is known", async () => {
+		const root = await trackTempDir();
+		const filePath = path.join(root, "app.apk");
+		await fs.writeFile(filePath, "fake-apk");
+
+		await verifyDownloadIntegrityAsync(filePath, null);
+
+		expect(await fs.pathExists(filePath)).toBe(true);
+	});
+
+	test("deletes truncated files and reports a mismatch", async () => {
+		const root = await trackTempDir();
+		const filePath = path.join(root, "app.apk");
+		await fs.writeFile(filePath, "fake-a");
+
+		await expect(
+			verifyDownloadIntegrityAsync(filePath, sha256("fake-apk")),
+		).rejects.toThrow("Checksum mismatch for downloaded build");
+		expect(await fs.pathExists(filePath)).toBe(false);
+	});
+
+	test("never caches a download that fails verification", async () => {
+		const root = await trackTempDir();
+		const cachedAppPath = path.join(root, "cache", "app.apk");
+
+		await expect(
+			downloadAndMaybeExtractAppAsync(
+				async () => ({ body: Readable.from(["fake-a"]), size: 6 }),
+				"android",
+				{ cachedAppPath, expectedSha256: sha256("fake-apk") },
+			),
+		).rejects.toThrow("Checksum mismatch");
+		expect(await fs.pathExists(cachedAppPath)).toBe(false);
+		expect(await fs.readdir(getDownloadDirectory())).toEqual([]);
+	});
+
+	test("resumes a download an earlier run left behind", async () => {
+		const root = await trackTempDir();
+		const cachedAppPath = path.join(root, "cache", "app.apk");
+		const expectedSha256 = sha256("fake-apk");
+		await fs.outputFile(
+			path.join(getDownloadDirectory(), `${expectedSha256}.apk.partial`),
+			"fake",
+		);
+		const offsets: number[] = [];
+
+		await downloadAndMaybeExtractAppAsync(
+			async ({ offset = 0 }) => {
+				offsets.push(offset);
+				return {
+					body: Readable.from(["fake-apk".slice(offset)]),
+					size: 8 - offset,
+					resumed: true,
+				};
+			},
+			"android",
+			{ cachedAppPath, expectedSha256 },
+		);
+
+		expect(offsets).toEqual([4]);
+		expect(await fs.readFile(cachedAppPath, "utf8")).toBe("fake-apk");
+	});
+});
+
+describe("downloadFileAsync", () => {
+	const content = Buffer.alloc(256 * 1024, "x");
+
+	afterEach(closeMockServers);
+
+	/**
+	 * Serves `content`, letting the handler decide how each request is answered
+	 */
+	async function serve(
+		handler: (
+			request: MockRequest,
+			res: http.ServerResponse,
+			requestIndex: number,
+		) => MockReply | undefined,
+	): Promise<{ url: string; requests: MockRequest[] }> {
+		let requestIndex = 0;
+		const { url, requests } = await startMockServer({
+			"GET /app.apk": (request, res) => handler(request, res, requestIndex++),
+		});
+		return { url: `${url}/app.apk`, requests };
+	}
+
+	/** Sends half of the body and then drops the connection */
+	function dropMidStream(res: http.ServerResponse): undefined {
+		res.writeHead(200, { "content-length": content.length });
+		res.write(content.subarray(0, content.length / 2));
+		setTimeout(() => res.socket?.destroy(), 50);
+	}
+
+	test("resumes with a Range request after the connection drops", async () => {
+		const root = await trackTempDir();
+		const outputPath = path.join(root, "app.apk");
+		const { url, requests } = await serve(({ headers }, res, index) => {
+			if (index === 0) {
+				return dropMidStream(res);
+			}
+			const start = Number(headers.range?.match(/bytes=(\d+)-/)?.[1] ?? 0);
+			return [
+				206,
+				content.subarray(start),
+				{
+					"content-length": content.length - start,
+					"content-range": `bytes ${start}-${content.length - 1}/${content.length}`,
+				},
+			];
+		});
+
+		await downloadFileAsync(
+			(options) => openUrlDownloadStreamAsync(url, null, options),
+			outputPath,
+			{ retries: 2, retryDelayMs: 1 },
+		);
+
+		expect(requests[0].headers.range).toBeUndefined();
+		expect(requests[1].headers.range).toMatch(/^bytes=\d+-$/);
+		expect((await fs.readFile(outputPath)).equals(content)).toBe(true);
+		expect(await fs.pathExists(`${outputPath}.partial`)).toBe(false);
+	});
+
+	test("starts over when the server ignores the Range header", async () => {
+		const root = await trackTempDir();
+		const outputPath = path.join(root, "app.apk");
+		const { url, requests } = await serve((_request, res, index) =>
+			index === 0 ? dropMidStream(res) : [200, content],
+		);
+
+		await downloadFileAsync(
+			(options) => openUrlDownloadStreamAsync(url, null, options),
+			outputPath,
+			{ retries: 2, retryDelayMs: 1 },
+		);
+
+		expect(requests).toHaveLength(2);
+		expect((await fs.readFile(outputPath)).equals(content)).toBe(true);
+	});
+
+	test("gives up after the configured number of retries", async () => {
+		const root = await trackTempDir();
+		const outputPath = path.join(root, "app.apk");
+		const { url, requests } = await serve((_request, res) =>
+			dropMidStream(res),
+		);
+
+		await expect(
+			downloadFileAsync(
+				(options) => openUrlDownloadStreamAsync(url, null, options),
+				outputPath,
+				{ retries: 2, retryDelayMs: 1 },
+			),
+		).rejects.toThrow();
+
+		expect(requests).toHaveLength(3);
+		expect(await fs.pathExists(outputPath)).toBe(false);
+		expect(await fs.pathExists(`${outputPath}.partial`)).toBe(true);
+	});
+
+	test("resumes the partial file left by an earlier run", async () => {
+		const root = await trackTempDir();
+		const outputPath = path.join(root, "app.apk");
+		await fs.writeFile(`${outputPath}.partial`, content.subarray(0, 1000));
+		const { url, requests } = await serve(({ headers }) => {
+			const start = Number(headers.range?.match(/bytes=(\d+)-/)?.[1] ?? 0);
+			return [
+				206,
+				content.subarray(start),
+				{
+					"content-length": content.length - start,
+					"content-range": `bytes ${start}-${content.length - 1}/${content.length}`,
+				},
+			];
+		});
+
+		await downloadFileAsync(
+			(options) => openUrlDownloadStreamAsync(url, null, options),
+			outputPath,
+			{ retries: 0 },
+		);
+
+		expect(requests.map((request) => request.headers.range)).toEqual([
+			"bytes=1000-",
+		]);
+		expect((await fs.readFile(outputPath)).equals(content)).toBe(true);
+	});
+
+	test("starts over when the server resumes at another offset", async () => {
+		const root = await trackTempDir();
+		const outputPath = path.join(root, "app.apk");
+		await fs.writeFile(`${outputPath}.partial`, content.subarray(0, 1000));
+		const { url, requests } = await serve(({ headers }) =>
+			headers.range
+				? [
+						206,
+						content.subarray(500),
+						{
+							"content-length": content.length - 500,
+							"content-range": `bytes 500-${content.length - 1}/${content.length}`,
+						},
+					]
+				: [200, content],
+		);
+
+		await downloadFileAsync(
+			(options) => openUrlDownloadStreamAsync(url, null, options),
+			outputPath,
+			{ retries: 0 },
+		);
+
+		expect(requests.map((request) => request.headers.range)).toEqual([
+			"bytes=1000-",
+			undefined,
+		]);
+		expect((await fs.readFile(outputPath)).equals(content)).toBe(true);
+	});
+
+	test("does not retry client errors", async () => {
+		const root = await trackTempDir();
+		const outputPath = path.join(root, "app.apk");
+		const { url, requests } = await serve(() => [404]);
+
+		await expect(
+			downloadFileAsync(
+				(options) => openUrlDownloadStreamAsync(url, null, options),
+				outputPath,
+				{ retries: 2, retryDelayMs: 1 },
+			),
+		).rejects.toThrow("404");
+
+		expect(requests).toHaveLength(1);
+	});
+});
@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	describeGitHubError,
+	verifyRepositoryAccessAsync,
+} from "../src/github-access";
+import { closeMockServers, startMockServer } from "./helpers";
+
+afterEach(closeMockServers);
+
+/** Answers every repository request with the given status, headers and body */
+async function serveRepository(
+	status: number,
+	headers: Record<string, string> = {},
+	body: object = {},
+) {
+	const { url, requests } = await startMockServer(() => [
+		status,
+		body,
+		headers,
+	]);
+	return { apiUrl: url, requests };
+}
+
+let tokenCount = 0;
+/** Returns a token not seen before so cached preflight results do not leak between tests */
+const freshToken = () => `token-${++tokenCount}`;
+
+describe("describeGitHubError", () => {
+	const params = { owner: "acme", repo: "app", access: "write" as const };
+
+	test("explains invalid tokens", () => {
+		expect(describeGitHubError({ status: 401 }, params)).toContain(
+			"invalid, expired or revoked",
+		);
+	});
+
+	test("points at SAML single sign-on authorization", () => {
+		expect(
+			describeGitHubError(
+				{
+					status: 403,
+					response: {
+						headers: {
+							"x-github-sso": "required; url=https://github.com/orgs/acme/sso",
+						},
+					},
+				},
+				params,
+			),
+		).toContain("Authorize it at https://github.com/orgs/acme/sso");
+	});
+
+	test("names the permission fine-grained tokens are missing", () => {
+		expect(
+			describeGitHubError(
+				{
+					status: 403,
+					response: {
+						headers: { "x-accepted-github-permissions": "contents=write" },
+					},
+				},
+				params,
+			),
+		).toBe(
+			'The GitHub token cannot write acme/app. Fine-grained tokens need the "Contents: Read and write" repository permission, classic tokens the "repo" scope and GitHub Apps "contents: write" (GitHub expects contents=write).',
+		);
+	});
+
+	test("names the Actions permission for the artifacts backend", () => {
+		expect(
+			describeGitHubError(
+				{ status: 403 },
+				{ ...params, permission: "actions" },
+			),
+		).toContain(
+			'"Actions: Read and write" repository permission, classic tokens the "repo" scope and GitHub Apps "actions: write"',
+		);
+	});
+
+	test("explains missing repositories", () => {
+		expect(describeGitHubError({ status: 404 }, params)).toContain(
+			"Repository acme/app was not found",
+		);
+	});
+
+	test("leaves rate limits and other errors alone", () => {
+		expect(
+			describeGitHubError(
+				{
+					status: 403,
+					response: { headers: { "x-ratelimit-remaining": "0" } },
+				},
+				params,
+			),
+		).toBeNull();
+		expect(describeGitHubError(new Error("socket hang up"), params)).toBeNull();
+	});
+
+	test("leaves secondary rate limits alone", () => {
+		expect(
+			describeGitHubError(
+				{
+					status: 403,
+					response: {
+						headers: { "x-ratelimit-remaining": "4000", "retry-after": "60" },
+					},
+				},
+				params,
+			),
+		).toBeNull();
+		expect(
+			describeGitHubError(
+				Object.assign(
+					new Error(
+						"You have exceeded a secondary rate limit. Please wait a few minutes before you try again.",
+					),
+					{
+						status: 403,
+						response: { headers: { "x-ratelimit-remaining": "4000" } },
+					},
+				),
+				params,
+			),
+		).toBeNull();
+	});
+});
+
+describe("verifyRepositoryAccessAsync", () => {
+	test("accepts tokens with push access and caches the result", async () => {
+		const { apiUrl, requests } = await serveRepository(
+			200,
+			{ "x-oauth-scopes": "repo, workflow" },
+			{ private: true, permissions: { push: true } },
+		);
+		const params = {
+			token: freshToken(),
+			owner: "acme",
+			repo: "app",
+			apiUrl,
+			access: "write" as const,
+		};
+
+		await verifyRepositoryAccessAsync(params);
+		await verifyRepositoryAccessAsync(params);
+
+		expect(requests.map((request) => request.path)).toEqual([
+			"/repos/acme/app",
+		]);
+	});
+
+	test("rejects classic tokens without the repo scope for uploads", async () => {
+		const { apiUrl } = await serveRepository(
+			200,
+			{ "x-oauth-scopes": "read:org" },
+			{ private: true, permissions: { push: true } },
+		);
+
+		await expect(
+			verifyRepositoryAccessAsync({
+				token: freshToken(),
+				owner: "acme",
+				repo: "app",
+				apiUrl,
+				access: "write",
+			}),
+		).rejects.toThrow('missing the "repo" scope');
+	});
+
+	test("rejects tokens without push access for uploads only", async () => {
+		const { apiUrl } = await serveRepository(
+			200,
+			{},
+			{ private: false, permissions: { push: false, pull: true } },
+		);
+		const token = freshToken();
+
+		await verifyRepositoryAccessAsync({
+			token,
+			owner: "acme",
+			repo: "app",
+			apiUrl,
+			access: "read",
+		});
+		await expect(
+			verifyRepositoryAccessAsync({
+				token,
+				owner: "acme",
+				repo: "app",
+				apiUrl,
+				access: "write",
+			}),
+		).rejects.toThrow("The GitHub token cannot write acme/app");
+	});
+
+	test("maps missing repositories to guidance", async () => {
+		const { apiUrl } = await serveRepository(404, {}, { message: "Not Found" });
+
+		await expect(
+			verifyRepositoryAccessAsync({
+				token: freshToken(),
+				owner: "acme",
+				repo: "missing",
+				apiUrl,
+				access: "read",
+			}),
+		).rejects.toThrow("Repository acme/missing was not found");
+	});
+});
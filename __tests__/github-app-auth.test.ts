@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createVerify, generateKeyPairSync } from "node:crypto";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import {
+	createGitHubAppJwt,
+	getGitHubAppCredentials,
+	getInstallationTokenAsync,
+} from "../src/github-app-auth";
+import { closeMockServers, startMockServer } from "./helpers";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+	modulusLength: 2048,
+	privateKeyEncoding: { type: "pkcs8", format: "pem" },
+	publicKeyEncoding: { type: "spki", format: "pem" },
+});
+
+afterEach(closeMockServers);
+
+/** Serves installation tokens expiring after `lifetimeMs`, recording the JWTs */
+async function serveTokens(lifetimeMs: number) {
+	const authorizations: string[] = [];
+	const { url } = await startMockServer((request) => {
+		authorizations.push(request.headers.authorization ?? "");
+		return [
+			201,
+			{
+				token: `installation-token-${authorizations.length}`,
+				expires_at: new Date(Date.now() + lifetimeMs).toISOString(),
+			},
+		];
+	});
+	return { apiUrl: url, authorizations };
+}
+
+describe("getGitHubAppCredentials", () => {
+	test("returns null when no app is configured", async () => {
+		expect(await getGitHubAppCredentials({}, {})).toBeNull();
+	});
+
+	test("reads the credentials from the environment", async () => {
+		const credentials = await getGitHubAppCredentials(
+			{ apiUrl: "https://github.example.com/api/v3" },
+			{
+				GITHUB_APP_ID: "123",
+				GITHUB_APP_INSTALLATION_ID: "456",
+				GITHUB_APP_PRIVATE_KEY: "-----BEGIN KEY-----\\nabc",
+			},
+		);
+
+		expect(credentials).toEqual({
+			appId: "123",
+			installationId: "456",
+			privateKey: "-----BEGIN KEY-----\nabc",
+			apiUrl: "https://github.example.com/api/v3",
+		});
+	});
+
+	test("prefers options and reads the key file", async () => {
+		const root = await fs.mkdtemp(path.join(os.tmpdir(), "eggl-app-auth-"));
+		const keyPath = path.join(root, "app.pem");
+		await fs.writeFile(keyPath, privateKey);
+
+		try {
+			const credentials = await getGitHubAppCredentials(
+				{ appId: 1, appInstallationId: 2, appPrivateKeyPath: keyPath },
+				{ GITHUB_APP_ID: "999" },
+			);
+
+			expect(credentials?.appId).toBe("1");
+			expect(credentials?.privateKey).toBe(privateKey);
+		} finally {
+			await fs.remove(root);
+		}
+	});
+
+	test("rejects partial configurations", async () => {
+		await expect(getGitHubAppCredentials({ appId: 1 }, {})).rejects.toThrow(
+			"needs an app ID, a private key and an installation ID",
+		);
+	});
+});
+
+describe("createGitHubAppJwt", () => {
+	test("creates a signed JWT issued by the app", () => {
+		const now = Date.UTC(2024, 0, 1);
+		const jwt = createGitHubAppJwt({ appId: "123", privateKey }, now);
+		const [header, payload, signature] = jwt.split(".") as [
+			string,
+			string,
+			string,
+		];
+
+		expect(JSON.parse(Buffer.from(payload, "base64url").toString())).toEqual({
+			iat: now / 1000 - 60,
+			exp: now / 1000 + 540,
+			iss: 123,
+		});
+		expect(
+			createVerify("RSA-SHA256")
+				.update(`${header}.${payload}`)
+				.verify(publicKey, Buffer.from(signature, "base64url")),
+		).toBe(true);
+	});
+});
+
+describe("getInstallationTokenAsync", () => {
+	test("caches installation tokens until they are about to expire", async () => {
+		const { apiUrl, authorizations } = await serveTokens(60 * 60 * 1000);
+		const credentials = {
+			appId: "1",
+			installationId: "cached",
+			privateKey,
+			apiUrl,
+		};
+
+		expect(await getInstallationTokenAsync(credentials)).toBe(
+			"installation-token-1",
+		);
+		expect(await getInstallationTokenAsync(credentials)).toBe(
+			"installation-token-1",
+		);
+		expect(authorizations).toHaveLength(1);
+		expect(authorizations[0]).toStartWith("Bearer ");
+	});
+
+	test("renews tokens that expire soon", async () => {
+		const { apiUrl, authorizations } = await serveTokens(60 * 1000);
+		const credentials = {
+			appId: "1",
+			installationId: "expiring",
+			privateKey,
+			apiUrl,
+		};
+
+		await getInstallationTokenAsync(credentials);
+		expect(await getInstallationTokenAsync(credentials)).toBe(
+			"installation-token-2",
+		);
+		expect(authorizations).toHaveLength(2);
+	});
+});
@@ -0,0 +1,268 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import {
+	createOctokit,
+	fetchWithTrace,
+	getBackoffDelayMs,
+	getGitHubApiUrl,
+	getGitHubHostname,
+	getRateLimitDelayMs,
+	isGitHubApiUrl,
+} from "../src/github-client";
+import { logger } from "../src/logger";
+import { closeMockServers, describeRequest, startMockServer } from "./helpers";
+
+const originalApiUrl = process.env.GITHUB_API_URL;
+afterEach(() => {
+	closeMockServers();
+	if (originalApiUrl === undefined) {
+		delete process.env.GITHUB_API_URL;
+	} else {
+		process.env.GITHUB_API_URL = originalApiUrl;
+	}
+});
+
+describe("getGitHubApiUrl", () => {
+	test("defaults to github.com", () => {
+		delete process.env.GITHUB_API_URL;
+
+		expect(getGitHubApiUrl()).toBe("https://api.github.com");
+	});
+
+	test("prefers the option over GITHUB_API_URL", () => {
+		process.env.GITHUB_API_URL = "https://ghes.example.com/api/v3";
+
+		expect(getGitHubApiUrl()).toBe("https://ghes.example.com/api/v3");
+		expect(getGitHubApiUrl("https://github.example.com/api/v3/")).toBe(
+			"https://github.example.com/api/v3",
+		);
+	});
+});
+
+describe("getGitHubHostname", () => {
+	test("returns the host the gh CLI is logged in to", () => {
+		delete process.env.GITHUB_API_URL;
+
+		expect(getGitHubHostname()).toBe("github.com");
+		expect(getGitHubHostname("https://github.example.com/api/v3")).toBe(
+			"github.example.com",
+		);
+	});
+});
+
+describe("isGitHubApiUrl", () => {
+	test("matches URLs below the API base URL", () => {
+		const apiUrl = "https://github.example.com/api/v3";
+
+		expect(
+			isGitHubApiUrl(
+				"https://github.example.com/api/v3/repos/o/r/releases/assets/1",
+				apiUrl,
+			),
+		).toBe(true);
+		expect(
+			isGitHubApiUrl(
+				"https://github.example.com/o/r/releases/download/t/app.apk",
+				apiUrl,
+			),
+		).toBe(false);
+		expect(
+			isGitHubApiUrl(
+				"https://api.github.com/repos/o/r/releases/assets/1",
+				apiUrl,
+			),
+		).toBe(false);
+		expect(isGitHubApiUrl("not a url", apiUrl)).toBe(false);
+	});
+});
+
+describe("createOctokit", () => {
+	test("sends requests to the configured API", () => {
+		const octokit = createOctokit({
+			token: null,
+			apiUrl: "https://github.example.com/api/v3",
+		});
+
+		expect(octokit.request.endpoint.DEFAULTS.baseUrl).toBe(
+			"https://github.example.com/api/v3",
+		);
+	});
+});
+
+describe("getRateLimitDelayMs", () => {
+	const rateLimited = (status: number, headers: Record<string, string>) => ({
+		status,
+		response: { headers },
+	});
+
+	test("honors retry-after", () => {
+		expect(getRateLimitDelayMs(rateLimited(403, { "retry-after": "30" }))).toBe(
+			30_000,
+		);
+	});
+
+	test("waits for the quota to reset", () => {
+		const now = Date.UTC(2024, 0, 1);
+
+		expect(
+			getRateLimitDelayMs(
+				rateLimited(403, {
+					"x-ratelimit-remaining": "0",
+					"x-ratelimit-reset": String(now / 1000 + 10),
+				}),
+				now,
+			),
+		).toBe(11_000);
+	});
+
+	test("waits a minute for secondary rate limits without headers", () => {
+		expect(
+			getRateLimitDelayMs(
+				Object.assign(
+					new Error("You have exceeded a secondary rate limit"),
+					rateLimited(403, {}),
+				),
+			),
+		).toBe(60_000);
+	});
+
+	test("ignores other errors", () => {
+		expect(getRateLimitDelayMs(rateLimited(403, {}))).toBeNull();
+		expect(getRateLimitDelayMs(rateLimited(500, {}))).toBeNull();
+		expect(getRateLimitDelayMs(new Error("socket hang up"))).toBeNull();
+	});
+});
+
+describe("getBackoffDelayMs", () => {
+	test("doubles the delay with jitter", () => {
+		expect(getBackoffDelayMs(0, 1000, () => 0)).toBe(500);
+		expect(getBackoffDelayMs(2, 1000, () => 1)).toBe(4000);
+	});
+});
+
+describe("createOctokit retries", () => {
+	/** Answers requests with the given responses in order, then with 200 */
+	async function serve(responses: [number, Record<string, string>][]) {
+		const { url, requests } = await startMockServer(() => {
+			const [status, headers] = responses.shift() ?? [200, {}];
+			return [status, { message: status === 200 ? "ok" : "failed" }, headers];
+		});
+		return {
+			octokit: createOctokit({
+				apiUrl: url,
+				retry: { retries: 2, retryDelayMs: 1 },
+			}),
+			requests,
+		};
+	}
+
+	test("retries idempotent calls after server errors", async () => {
+		const { octokit, requests } = await serve([[502, {}]]);
+
+		await octokit.rest.repos.get({ owner: "o", repo: "r" });
+
+		expect(requests.map(describeRequest)).toEqual([
+			"GET /repos/o/r",
+			"GET /repos/o/r",
+		]);
+	});
+
+	test("does not repeat other calls after server errors", async () => {
+		const { octokit, requests } = await serve([[502, {}]]);
+
+		await expect(
+			octokit.rest.repos.createRelease({
+				owner: "o",
+				repo: "r",
+				tag_name: "t",
+			}),
+		).rejects.toThrow();
+		expect(requests).toHaveLength(1);
+	});
+
+	test("repeats rate limited calls after retry-after", async () => {
+		const { octokit, requests } = await serve([[429, { "retry-after": "0" }]]);
+
+		await octokit.rest.repos.createRelease({
+			owner: "o",
+			repo: "r",
+			tag_name: "t",
+		});
+
+		expect(requests.map(describeRequest)).toEqual([
+			"POST /repos/o/r/releases",
+			"POST /repos/o/r/releases",
+		]);
+	});
+
+	test("gives up after the configured number of retries", async () => {
+		const { octokit, requests } = await serve([
+			[503, {}],
+			[503, {}],
+			[503, {}],
+		]);
+
+		await expect(
+			octokit.rest.repos.get({ owner: "o", repo: "r" }),
+		).rejects.toThrow();
+		expect(requests).toHaveLength(3);
+	});
+});
+
+describe("HTTP tracing", () => {
+	const originalLevel = logger.level;
+	const originalFormat = logger.format;
+
+	afterEach(() => {
+		logger.level = originalLevel;
+		logger.format = originalFormat;
+		mock.restore();
+	});
+
+	/** Captures the JSON log lines written while tracing is enabled */
+	function captureTraces(): string[] {
+		logger.level = "debug";
+		logger.format = "json";
+		const messages: string[] = [];
+		spyOn(process.stderr, "write").mockImplementation((chunk) => {
+			messages.push(JSON.parse(String(chunk)).message);
+			return true;
+		});
+		return messages;
+	}
+
+	async function serve(): Promise<string> {
+		return (await startMockServer(() => [200, {}])).url;
+	}
+
+	test("traces API calls at the debug level", async () => {
+		const apiUrl = await serve();
+		const messages = captureTraces();
+
+		await createOctokit({ apiUrl }).rest.repos.get({ owner: "o", repo: "r" });
+
+		expect(messages).toHaveLength(1);
+		expect(messages[0]).toMatch(
+			new RegExp(`^HTTP GET ${apiUrl}/repos/o/r 200 \\(\\d+ms\\)$`),
+		);
+	});
+
+	test("leaves query strings out of traced URLs", async () => {
+		const url = await serve();
+		const messages = captureTraces();
+
+		await fetchWithTrace(`${url}/blob?sig=secret`, { method: "put" });
+
+		expect(messages).toHaveLength(1);
+		expect(messages[0]).toStartWith(`HTTP PUT ${url}/blob 200`);
+	});
+
+	test("traces nothing above the debug level", async () => {
+		const url = await serve();
+		const messages = captureTraces();
+		logger.level = "info";
+
+		await fetchWithTrace(url);
+
+		expect(messages).toEqual([]);
+	});
+});
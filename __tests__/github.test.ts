@@ -0,0 +1,566 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as os from "node:os";
+import * as path from "node:path";
+import { text } from "node:stream/consumers";
+import type { Octokit } from "@octokit/rest";
+import * as fs from "fs-extra";
+import {
+	assertReleaseAssetSize,
+	createGitHubReleasesStorage,
+	createReleaseAndUploadAsset,
+	resolveTargetCommit,
+	toCacheRef,
+} from "../src/github";
+import type { BuildManifest } from "../src/types";
+import {
+	closeMockServers,
+	describeRequest,
+	type MockReply,
+	type MockRequest,
+	type MockRoutes,
+	startMockServer,
+} from "./helpers";
+
+describe("assertReleaseAssetSize", () => {
+	test("accepts assets below 2 GiB", () => {
+		expect(() =>
+			assertReleaseAssetSize("App.app.tar.gz", 2 * 1024 ** 3 - 1),
+		).not.toThrow();
+	});
+
+	test("rejects assets of 2 GiB or more before uploading", () => {
+		expect(() =>
+			assertReleaseAssetSize("App.app.tar.gz", 2.5 * 1024 ** 3),
+		).toThrow("App.app.tar.gz is 2.50 GiB");
+	});
+});
+
+/** Creates an Octokit stand-in serving the given branches and commits */
+function createOctokitStub({
+	defaultBranch = "develop",
+	branches = { develop: "develop-sha" } as Record<string, string>,
+	commits = {} as Record<string, string>,
+} = {}) {
+	const notFound = () => Object.assign(new Error("Not Found"), { status: 404 });
+	const calls: string[] = [];
+	const octokit = {
+		rest: {
+			repos: {
+				get: async () => {
+					calls.push("get");
+					return { data: { default_branch: defaultBranch } };
+				},
+				getBranch: async ({ branch }: { branch: string }) => {
+					calls.push(`getBranch:${branch}`);
+					if (!branches[branch]) throw notFound();
+					return { data: { commit: { sha: branches[branch] } } };
+				},
+				getCommit: async ({ ref }: { ref: string }) => {
+					calls.push(`getCommit:${ref}`);
+					const sha = commits[ref] ?? branches[ref];
+					if (!sha) {
+						throw Object.assign(new Error("No commit found"), { status: 422 });
+					}
+					return { data: { sha } };
+				},
+			},
+		},
+	};
+	return { octokit: octokit as unknown as Octokit, calls };
+}
+
+describe("resolveTargetCommit", () => {
+	test("uses the default branch from the repository metadata", async () => {
+		const { octokit, calls } = createOctokitStub();
+
+		expect(await resolveTargetCommit(octokit, "o", "r")).toBe("develop-sha");
+		expect(calls).toEqual(["get", "getBranch:develop"]);
+	});
+
+	test("prefers an explicit targetCommitish", async () => {
+		const { octokit } = createOctokitStub({
+			branches: { develop: "develop-sha", trunk: "trunk-sha" },
+		});
+
+		expect(
+			await resolveTargetCommit(octokit, "o", "r", {
+				targetCommitish: "trunk",
+			}),
+		).toBe("trunk-sha");
+	});
+
+	test("fails for a targetCommitish that does not exist", async () => {
+		const { octokit } = createOctokitStub();
+
+		await expect(
+			resolveTargetCommit(octokit, "o", "r", { targetCommitish: "nope" }),
+		).rejects.toThrow('targetCommitish "nope" does not exist in o/r');
+	});
+
+	test("tags the local commit when it has been pushed", async () => {
+		const { octokit } = createOctokitStub({ commits: { abc1234: "abc1234" } });
+
+		expect(
+			await resolveTargetCommit(octokit, "o", "r", {
+				localCommitSha: "abc1234",
+			}),
+		).toBe("abc1234");
+	});
+
+	test("falls back when the local commit has not been pushed", async () => {
+		const { octokit } = createOctokitStub();
+
+		expect(
+			await resolveTargetCommit(octokit, "o", "r", {
+				localCommitSha: "unpushed",
+			}),
+		).toBe("develop-sha");
+	});
+});
+
+describe("toCacheRef", () => {
+	test("places the key under the ref namespace", () => {
+		expect(toCacheRef("refs/expo-cache", "fingerprint.abc.ios")).toBe(
+			"refs/expo-cache/fingerprint.abc.ios",
+		);
+	});
+
+	test("accepts namespaces without refs/ and trailing slashes", () => {
+		expect(toCacheRef("expo-cache/", "fingerprint.abc.ios")).toBe(
+			"refs/expo-cache/fingerprint.abc.ios",
+		);
+	});
+});
+
+describe("createGitHubReleasesStorage", () => {
+	test("refuses to modify releases without a token", async () => {
+		const storage = createGitHubReleasesStorage({
+			token: null,
+			owner: "owner",
+			repo: "repo",
+		});
+
+		await expect(
+			storage.upload({
+				key: "fingerprint.abc.ios",
+				filePath: "/tmp/app.tar.gz",
+				name: "ios-simulator.app.tar.gz",
+			}),
+		).rejects.toThrow("Missing GitHub token");
+		await expect(storage.delete("fingerprint.abc.ios")).rejects.toThrow(
+			"Missing GitHub token",
+		);
+	});
+});
+
+describe("anonymous downloads", () => {
+	afterEach(closeMockServers);
+
+	/** Serves "public" and "api" paths, recording the requests */
+	async function serve(publicStatus: number) {
+		const { url, requests } = await startMockServer({
+			"/public": publicStatus === 200 ? echoPath : [publicStatus],
+			"*": echoPath,
+		});
+		return { baseUrl: url, requests };
+	}
+
+	const echoPath = ({ path }: MockRequest): MockReply => [
+		200,
+		path,
+		{ "content-type": "application/octet-stream" },
+	];
+
+	const download = async (
+		token: string | null,
+		baseUrl: string,
+	): Promise<string> => {
+		const storage = createGitHubReleasesStorage({
+			token,
+			owner: "owner",
+			repo: "repo",
+		});
+		const { body } = await storage.download({
+			key: "fingerprint.abc.android",
+			name: "android.apk",
+			size: 0,
+			url: `${baseUrl}/api`,
+			publicUrl: `${baseUrl}/public`,
+		});
+		return text(body as NodeJS.ReadableStream & AsyncIterable<any>);
+	};
+
+	const describeAuthorization = ({ path, headers }: MockRequest) => ({
+		path,
+		authorization: headers.authorization,
+	});
+
+	test("downloads public assets without a token", async () => {
+		const { baseUrl, requests } = await serve(200);
+
+		expect(await download(null, baseUrl)).toBe("/public");
+		expect(requests.map(describeAuthorization)).toEqual([
+			{ path: "/public", authorization: undefined },
+		]);
+	});
+
+	test("falls back to the API when the public URL fails", async () => {
+		const { baseUrl, requests } = await serve(404);
+
+		expect(await download(null, baseUrl)).toBe("/api");
+		expect(requests.map((request) => request.path)).toEqual([
+			"/public",
+			"/api",
+		]);
+	});
+
+	test("uses the authenticated API when a token is available", async () => {
+		const { baseUrl, requests } = await serve(200);
+
+		expect(await download("secret", baseUrl)).toBe("/api");
+		expect(requests.map(describeAuthorization)).toEqual([
+			{ path: "/api", authorization: "Bearer secret" },
+		]);
+	});
+});
+
+describe("concurrent uploads", () => {
+	const tempRoots: string[] = [];
+
+	afterEach(async () => {
+		closeMockServers();
+		for (const root of tempRoots.splice(0)) {
+			await fs.remove(root);
+		}
+	});
+
+	const tagRef = "/repos/o/r/git/ref/tags%2Ffingerprint.abc.android";
+	const releaseByTag = "/repos/o/r/releases/tags/fingerprint.abc.android";
+
+	/** Serves a fake GitHub API with the repository, its branch and tag objects */
+	async function serve(routes: MockRoutes) {
+		const { url, requests } = await startMockServer({
+			"GET /repos/o/r": [200, { default_branch: "main" }],
+			"GET /repos/o/r/branches/main": [200, { commit: { sha: "commit-sha" } }],
+			"POST /repos/o/r/git/tags": [201, { sha: "our-tag-sha" }],
+			...routes,
+		});
+		return { apiUrl: url, requests };
+	}
+
+	const asset = (
+		apiUrl: string,
+		id: number,
+		name: string,
+		size: number,
+		state = "uploaded",
+		updatedAt = new Date().toISOString(),
+	) => ({
+		id,
+		name,
+		size,
+		state,
+		updated_at: updatedAt,
+		url: `${apiUrl}/assets/${id}`,
+		browser_download_url: `https://example.com/${id}/${name}`,
+	});
+
+	const release = (apiUrl: string, assets: unknown[] = []) => ({
+		id: 7,
+		upload_url: `${apiUrl}/upload/7/assets{?name,label}`,
+		assets,
+	});
+
+	const alreadyExists = (resource: string): MockReply => [
+		422,
+		{
+			message: "Validation Failed",
+			errors: [{ resource, code: "already_exists" }],
+		},
+	];
+
+	async function publish(apiUrl: string) {
+		const root = await fs.mkdtemp(path.join(os.tmpdir(), "eggl-github-"));
+		tempRoots.push(root);
+		const binaryPath = path.join(root, "app.apk");
+		await fs.writeFile(binaryPath, "build");
+		return createReleaseAndUploadAsset({
+			token: "secret",
+			owner: "o",
+			repo: "r",
+			apiUrl,
+			tagName: "fingerprint.abc.android",
+			binaryPath,
+			manifest: { size: 5, sha256: "same" } as BuildManifest,
+			concurrentUploadPollMs: 1,
+		});
+	}
+
+	test("uses the tag and release created by a concurrent upload", async () => {
+		let releaseLookups = 0;
+		let tagLookups = 0;
+		const { apiUrl, requests } = await serve({
+			// The other job creates the tag right after the first lookup
+			[tagRef]: () =>
+				tagLookups++ === 0
+					? [404, { message: "Not Found" }]
+					: [200, { object: { sha: "their-tag-sha" } }],
+			"POST /repos/o/r/git/refs": [
+				422,
+				{ message: "Reference already exists" },
+			],
+			[releaseByTag]: ({ url }) =>
+				releaseLookups++ === 0
+					? [404, { message: "Not Found" }]
+					: [200, release(url.origin)],
+			"POST /repos/o/r/releases": alreadyExists("Release"),
+			"POST /upload/7/assets": ({ url }) => [
+				201,
+				asset(url.origin, 1, "app.apk", 5),
+			],
+		});
+
+		expect(await publish(apiUrl)).toBe("https://example.com/1/app.apk");
+		expect(requests.map(describeRequest)).toContain("POST /repos/o/r/releases");
+		expect(releaseLookups).toBe(2);
+	});
+
+	test("skips uploading a build that is already present", async () => {
+		const { apiUrl, requests } = await serve({
+			[tagRef]: [200, { object: { sha: "tag-sha" } }],
+			[releaseByTag]: ({ url }) => [
+				200,
+				release(url.origin, [
+					asset(url.origin, 1, "app.apk", 5),
+					asset(url.origin, 2, "app.apk.manifest.json", 100),
+				]),
+			],
+			"/assets/2": [200, { size: 5, sha256: "same" }],
+		});
+
+		expect(await publish(apiUrl)).toBe("https://example.com/1/app.apk");
+		expect(requests.filter((request) => request.method !== "GET")).toEqual([]);
+	});
+
+	test("replaces a different build with the same name", async () => {
+		const { apiUrl, requests } = await serve({
+			[tagRef]: [200, { object: { sha: "tag-sha" } }],
+			[releaseByTag]: ({ url }) => [
+				200,
+				release(url.origin, [
+					asset(url.origin, 1, "app.apk", 5),
+					asset(url.origin, 2, "app.apk.manifest.json", 100),
+				]),
+			],
+			"/assets/2": [200, { size: 5, sha256: "other" }],
+			"DELETE /repos/o/r/releases/assets/1": [204],
+			"DELETE /repos/o/r/releases/assets/2": [204],
+			"POST /upload/7/assets": ({ url }) => [
+				201,
+				asset(url.origin, 3, "app.apk", 5),
+			],
+		});
+
+		expect(await publish(apiUrl)).toBe("https://example.com/3/app.apk");
+		const described = requests.map(describeRequest);
+		expect(described).toContain("DELETE /repos/o/r/releases/assets/1");
+		// The build and its manifest both go to the release's upload URL
+		expect(
+			described.filter((request) => request === "POST /upload/7/assets"),
+		).toHaveLength(2);
+	});
+
+	test("uses the asset uploaded by a concurrent upload", async () => {
+		const { apiUrl, requests } = await serve({
+			[tagRef]: [200, { object: { sha: "tag-sha" } }],
+			[releaseByTag]: ({ url }) => [200, release(url.origin)],
+			"POST /upload/7/assets": alreadyExists("ReleaseAsset"),
+			"GET /repos/o/r/releases/7": ({ url }) => [
+				200,
+				release(url.origin, [
+					asset(url.origin, 4, "app.apk", 9),
+					asset(url.origin, 5, "app.apk.manifest.json", 100),
+				]),
+			],
+		});
+
+		expect(await publish(apiUrl)).toBe("https://example.com/4/app.apk");
+		// The winner's manifest describes its build and is kept
+		expect(
+			requests
+				.filter((request) => request.method === "POST")
+				.map(describeRequest),
+		).toEqual(["POST /upload/7/assets"]);
+	});
+
+	test("waits for the manifest of a concurrent upload", async () => {
+		const { apiUrl, requests } = await serve({
+			[tagRef]: [200, { object: { sha: "tag-sha" } }],
+			[releaseByTag]: ({ url }) => [
+				200,
+				release(url.origin, [asset(url.origin, 1, "app.apk", 5)]),
+			],
+			"GET /repos/o/r/releases/7": ({ url }) => [
+				200,
+				release(url.origin, [
+					asset(url.origin, 1, "app.apk", 5),
+					asset(url.origin, 2, "app.apk.manifest.json", 100),
+				]),
+			],
+			"/assets/2": [200, { size: 5, sha256: "same" }],
+		});
+
+		expect(await publish(apiUrl)).toBe("https://example.com/1/app.apk");
+		expect(requests.filter((request) => request.method !== "GET")).toEqual([]);
+	});
+
+	test("replaces a build uploaded without a manifest", async () => {
+		const lastYear = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
+		const { apiUrl, requests } = await serve({
+			[tagRef]: [200, { object: { sha: "tag-sha" } }],
+			[releaseByTag]: ({ url }) => [
+				200,
+				release(url.origin, [
+					asset(
+						url.origin,
+						1,
+						"app.apk",
+						5,
+						"uploaded",
+						lastYear.toISOString(),
+					),
+				]),
+			],
+			"DELETE /repos/o/r/releases/assets/1": [204],
+			"POST /upload/7/assets": ({ url }) => [
+				201,
+				asset(url.origin, 3, "app.apk", 5),
+			],
+		});
+
+		expect(await publish(apiUrl)).toBe("https://example.com/3/app.apk");
+		expect(
+			requests
+				.filter((request) => request.method !== "GET")
+				.map(describeRequest),
+		).toEqual([
+			"DELETE /repos/o/r/releases/assets/1",
+			"POST /upload/7/assets",
+			"POST /upload/7/assets",
+		]);
+	});
+
+	test("replaces an upload that was abandoned", async () => {
+		const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+		const { apiUrl, requests } = await serve({
+			[tagRef]: [200, { object: { sha: "tag-sha" } }],
+			[releaseByTag]: ({ url }) => [
+				200,
+				release(url.origin, [
+					asset(url.origin, 1, "app.apk", 0, "starter", hourAgo.toISOString()),
+				]),
+			],
+			"DELETE /repos/o/r/releases/assets/1": [204],
+			"POST /upload/7/assets": ({ url }) => [
+				201,
+				asset(url.origin, 3, "app.apk", 5),
+			],
+		});
+
+		expect(await publish(apiUrl)).toBe("https://example.com/3/app.apk");
+		expect(requests.map(describeRequest)).toContain(
+			"DELETE /repos/o/r/releases/assets/1",
+		);
+		// The stale asset is replaced right away instead of being polled
+		expect(requests.map(describeRequest)).not.toContain(
+			"GET /repos/o/r/releases/7",
+		);
+	});
+
+	test("waits for an asset a concurrent upload is still uploading", async () => {
+		let releaseLookups = 0;
+		const { apiUrl, requests } = await serve({
+			[tagRef]: [200, { object: { sha: "tag-sha" } }],
+			[releaseByTag]: ({ url }) => [200, release(url.origin)],
+			"POST /upload/7/assets": alreadyExists("ReleaseAsset"),
+			"GET /repos/o/r/releases/7": ({ url }) => [
+				200,
+				release(url.origin, [
+					asset(
+						url.origin,
+						4,
+						"app.apk",
+						9,
+						releaseLookups++ === 0 ? "open" : "uploaded",
+					),
+					asset(url.origin, 5, "app.apk.manifest.json", 100),
+				]),
+			],
+		});
+
+		expect(await publish(apiUrl)).toBe("https://example.com/4/app.apk");
+		expect(releaseLookups).toBe(2);
+		expect(
+			requests
+				.filter((request) => request.method === "POST")
+				.map(describeRequest),
+		).toEqual(["POST /upload/7/assets"]);
+	});
+
+	test("accepts a manifest uploaded by a concurrent job", async () => {
+		const { apiUrl } = await serve({
+			[tagRef]: [200, { object: { sha: "tag-sha" } }],
+			[releaseByTag]: ({ url }) => [200, release(url.origin)],
+			"POST /upload/7/assets": ({ url }) =>
+				url.searchParams.get("name") === "app.apk"
+					? [201, asset(url.origin, 1, "app.apk", 5)]
+					: alreadyExists("ReleaseAsset"),
+		});
+
+		expect(await publish(apiUrl)).toBe("https://example.com/1/app.apk");
+	});
+
+	test("settles on the oldest of concurrently created drafts", async () => {
+		let created = false;
+		const { apiUrl, requests } = await serve({
+			"GET /repos/o/r/releases": ({ url }) =>
+				created
+					? [
+							200,
+							[
+								{ ...release(url.origin), id: 9, draft: true, name: "key" },
+								{ ...release(url.origin), id: 7, draft: true, name: "key" },
+							],
+						]
+					: [200, []],
+			"POST /repos/o/r/releases": ({ url }) => {
+				created = true;
+				return [201, { ...release(url.origin), id: 9 }];
+			},
+			"DELETE /repos/o/r/releases/9": [204],
+			"POST /upload/7/assets": ({ url }) => [
+				201,
+				asset(url.origin, 1, "app.apk", 5),
+			],
+		});
+
+		const root = await fs.mkdtemp(path.join(os.tmpdir(), "eggl-github-"));
+		tempRoots.push(root);
+		const binaryPath = path.join(root, "app.apk");
+		await fs.writeFile(binaryPath, "build");
+		expect(
+			await createReleaseAndUploadAsset({
+				token: "secret",
+				owner: "o",
+				repo: "r",
+				apiUrl,
+				tagName: "key",
+				binaryPath,
+				releaseMode: "draft",
+			}),
+		).toBe("https://example.com/1/app.apk");
+		expect(requests.map(describeRequest)).toContain(
+			"DELETE /repos/o/r/releases/9",
+		);
+	});
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach } from "bun:test";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import type { BuildManifest } from "../src/types";
+
+/**
+ * Creates a manifest for storage backend tests
+ */
+export function createTestManifest(
+	overrides: Partial<BuildManifest> = {},
+): BuildManifest {
+	return {
+		schemaVersion: 1,
+		fingerprintHash: "abc",
+		platform: "android",
+		devClient: false,
+		gitSha: "0123456789abcdef0123456789abcdef01234567",
+		sdkVersion: "53.0.0",
+		fileName: "app.apk",
+		size: 3,
+		sha256: "a".repeat(64),
+		createdAt: "2026-01-01T00:00:00.000Z",
+		machine: {
+			hostname: "ci-runner",
+			os: "linux 6.0.0",
+			arch: "x64",
+			nodeVersion: "v22.0.0",
+		},
+		...overrides,
+	};
+}
+
+/**
+ * Request received by a mock server
+ */
+export interface MockRequest {
+	/** HTTP method */
+	method: string;
+	/** Path without the query string */
+	path: string;
+	/** Full request URL */
+	url: URL;
+	/** Request headers */
+	headers: http.IncomingHttpHeaders;
+	/** Request body */
+	body: Buffer;
+}
+
+/**
+ * Response of a mock route: status, body (objects are sent as JSON) and headers
+ */
+export type MockReply = [
+	status: number,
+	body?: unknown,
+	headers?: Record<string, string | number>,
+];
+
+/**
+ * Answers a request, or writes to `res` itself for streamed or dropped responses
+ */
+export type MockHandler = (
+	request: MockRequest,
+	res: http.ServerResponse,
+) => MockReply | undefined | void | Promise<MockReply | undefined | void>;
+
+/**
+ * Routes of a mock server keyed by "METHOD /path" or "/path", with "*" matching any request
+ */
+export type MockRoutes = Record<string, MockHandler | MockReply>;
+
+const mockServers: http.Server[] = [];
+
+/**
+ * Starts an HTTP server answering requests from a route table
+ *
+ * Requests without a route are answered with 404. Every request is recorded
+ * in `requests`.
+ *
+ * @param {MockRoutes | MockHandler} routes - Route table or a handler for every request
+ * @returns {Promise<{url: string, requests: MockRequest[]}>} - Base URL and received requests
+ */
+export async function startMockServer(
+	routes: MockRoutes | MockHandler,
+): Promise<{ url: string; requests: MockRequest[] }> {
+	const table = typeof routes === "function" ? { "*": routes } : routes;
+	const requests: MockRequest[] = [];
+
+	const server = http.createServer(async (req, res) => {
+		const chunks: Buffer[] = [];
+		for await (const chunk of req) {
+			chunks.push(chunk as Buffer);
+		}
+		const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+		const request: MockRequest = {
+			method: req.method ?? "GET",
+			path: url.pathname,
+			url,
+			headers: req.headers,
+			body: Buffer.concat(chunks),
+		};
+		requests.push(request);
+
+		const route =
+			table[`${request.method} ${request.path}`] ??
+			table[request.path] ??
+			table["*"];
+		const reply =
+			typeof route === "function" ? await route(request, res) : route;
+		if (res.headersSent) {
+			return;
+		}
+		const [status, body, headers = {}] = reply ?? [
+			404,
+			{ message: "Not Found" },
+		];
+		if (Buffer.isBuffer(body) || typeof body === "string") {
+			res.writeHead(status, headers);
+			res.end(body);
+			return;
+		}
+		res.writeHead(status, { "content-type": "application/json", ...headers });
+		res.end(body === undefined ? undefined : JSON.stringify(body));
+	});
+	mockServers.push(server);
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	return {
+		url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+		requests,
+	};
+}
+
+/**
+ * Describes a recorded request as "METHOD /path"
+ *
+ * @param {MockRequest} request - Recorded request
+ * @returns {string} - Method and path
+ */
+export function describeRequest({ method, path }: MockRequest): string {
+	return `${method} ${path}`;
+}
+
+/**
+ * Closes the servers started by `startMockServer`
+ */
+export function closeMockServers(): void {
+	for (const server of mockServers.splice(0)) {
+		server.close();
+	}
+}
+
+/**
+ * Gives every test of the calling suite its own plugin temporary directory, so
+ * the local build cache and statistics of the machine are left alone
+ *
+ * @param {string} prefix - Name prefix of the directories
+ * @returns {() => string} - Returns the directory of the running test
+ */
+export function useTemporaryDirectory(prefix: string): () => string {
+	const original = process.env.EXPO_GITHUB_CACHE_TEMP_DIR;
+	let directory = "";
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
+		process.env.EXPO_GITHUB_CACHE_TEMP_DIR = directory;
+	});
+
+	afterEach(async () => {
+		if (original === undefined) {
+			delete process.env.EXPO_GITHUB_CACHE_TEMP_DIR;
+		} else {
+			process.env.EXPO_GITHUB_CACHE_TEMP_DIR = original;
+		}
+		await fs.remove(directory);
+	});
+
+	return () => directory;
+}
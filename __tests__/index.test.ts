@@ -1,7 +1,16 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import * as path from "node:path";
 import type { ResolveRemoteBuildCacheProps } from "@expo/config";
+import * as fs from "fs-extra";
+import { create as createTar } from "tar";
 import buildCachePlugin from "../src/index";
+import { createLocalStorage } from "../src/local-storage";
+import {
+	closeMockServers,
+	describeRequest,
+	startMockServer,
+	useTemporaryDirectory,
+} from "./helpers";
 
 // Preserve original environment
 const originalEnv = { ...process.env };
@@ -36,14 +45,75 @@ describe("GitHub Cache Plugin - Environment Variable Tests", () => {
 	});
 
 	describe("resolveBuildCache", () => {
-		test("should return null when GitHub token is missing", async () => {
+		const getRoot = useTemporaryDirectory("eggl-index-test-");
+
+		afterEach(closeMockServers);
+
+		test("should download public release assets when GitHub token is missing", async () => {
 			// Ensure no token env vars are set
 			delete process.env.GITHUB_TOKEN;
 			delete process.env.GH_TOKEN;
 
+			const buildDir = path.join(getRoot(), "build");
+			await fs.outputFile(
+				path.join(buildDir, "Example.app", "Info.plist"),
+				"<plist/>",
+			);
+			const archive = path.join(getRoot(), "ios-simulator.app.tar.gz");
+			await createTar({ cwd: buildDir, file: archive, gzip: true }, [
+				"Example.app",
+			]);
+			const { url, requests } = await startMockServer({
+				"GET /repos/owner/repo/releases/tags/fingerprint.1234567890abcdef.ios":
+					({ url }) => [
+						200,
+						{
+							id: 1,
+							assets: [
+								{
+									name: "ios-simulator.app.tar.gz",
+									size: 0,
+									url: `${url.origin}/api/asset`,
+									browser_download_url: `${url.origin}/public/asset`,
+									created_at: "2026-01-01T00:00:00Z",
+								},
+							],
+						},
+					],
+				"GET /public/asset": [200, await fs.readFile(archive)],
+			});
+
 			const result = await buildCachePlugin.resolveBuildCache(
 				createDummyProps("ios"),
-				{ owner: "owner", repo: "repo" },
+				{ owner: "owner", repo: "repo", apiUrl: url, recordStats: false },
+			);
+
+			expect(result).not.toBeNull();
+			expect(await fs.readFile(path.join(result!, "Info.plist"), "utf8")).toBe(
+				"<plist/>",
+			);
+			// The manifest lookup requests the release a second time
+			expect([...new Set(requests.map(describeRequest))]).toEqual([
+				"GET /repos/owner/repo/releases/tags/fingerprint.1234567890abcdef.ios",
+				"GET /public/asset",
+			]);
+			expect(
+				requests.filter((request) => request.headers.authorization),
+			).toEqual([]);
+		});
+
+		test("should return null when GitHub token is missing for Actions artifacts", async () => {
+			delete process.env.GITHUB_TOKEN;
+			delete process.env.GH_TOKEN;
+
+			const result = await buildCachePlugin.resolveBuildCache(
+				createDummyProps("ios"),
+				{
+					owner: "owner",
+					repo: "repo",
+					storage: "github-actions-artifacts",
+					recordStats: false,
+				},
 			);
 
 			expect(result).toBeNull();
@@ -112,3 +182,55 @@ describe("GitHub Cache Plugin - Environment Variable Tests", () => {
 		});
 	});
 });
+
+describe("GitHub Cache Plugin - Storage backends", () => {
+	const getRoot = useTemporaryDirectory("eggl-index-test-");
+
+	test("resolves a build uploaded to the local storage backend", async () => {
+		const root = getRoot();
+		const apkPath = path.join(root, "app-debug.apk");
+		await fs.writeFile(apkPath, "fake-apk");
+
+		const props = createDummyProps("android");
+		const options = {
+			owner: "owner",
+			repo: "repo",
+			storage: createLocalStorage({ root: path.join(root, "store") }),
+			recordStats: false,
+		};
+
+		expect(
+			await buildCachePlugin.uploadBuildCache(
+				{ ...props, buildPath: apkPath },
+				options,
+			),
+		).not.toBeNull();
+
+		const cachedPath = await buildCachePlugin.resolveBuildCache(props, options);
+
+		expect(cachedPath).not.toBeNull();
+		expect(cachedPath!.startsWith(root)).toBe(true);
+		expect(await fs.readFile(cachedPath!, "utf8")).toBe("fake-apk");
+	});
+
+	test("skips uploads in read-only mode", async () => {
+		const root = getRoot();
+		const apkPath = path.join(root, "app-debug.apk");
+		await fs.writeFile(apkPath, "fake-apk");
+		const storage = createLocalStorage({ root: path.join(root, "store") });
+
+		expect(
+			await buildCachePlugin.uploadBuildCache(
+				{ ...createDummyProps("android"), buildPath: apkPath },
+				{
+					owner: "owner",
+					repo: "repo",
+					storage,
+					readOnly: true,
+					recordStats: false,
+				},
+			),
+		).toBeNull();
+		expect(await storage.list()).toEqual([]);
+	});
+});
@@ -0,0 +1,196 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import {
+	evictLocalCacheAsync,
+	getLocalCachePolicy,
+	removeStaleTemporaryEntriesAsync,
+	touchCacheEntryAsync,
+} from "../src/local-cache";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const tempRoots: string[] = [];
+const originalEnv = { ...process.env };
+
+afterEach(async () => {
+	process.env = { ...originalEnv };
+	for (const root of tempRoots.splice(0)) {
+		await fs.remove(root).catch(() => {});
+	}
+});
+
+async function trackTempDir(): Promise<string> {
+	const root = await fs.mkdtemp(path.join(os.tmpdir(), "eggl-local-cache-"));
+	tempRoots.push(root);
+	return root;
+}
+
+/** Creates a cache entry of the given size that was last used `ageMs` ago */
+async function createEntry(
+	directory: string,
+	name: string,
+	size: number,
+	ageMs: number,
+): Promise<string> {
+	const entryPath = path.join(directory, name);
+	await fs.outputFile(entryPath, Buffer.alloc(size));
+	const lastUsed = new Date(Date.now() - ageMs);
+	await fs.utimes(entryPath, lastUsed, lastUsed);
+	return entryPath;
+}
+
+describe("getLocalCachePolicy", () => {
+	test("uses defaults when nothing is configured", () => {
+		delete process.env.EXPO_GITHUB_CACHE_MAX_SIZE_MB;
+		delete process.env.EXPO_GITHUB_CACHE_MAX_AGE_DAYS;
+
+		expect(getLocalCachePolicy()).toEqual({
+			maxSizeBytes: 10 * 1024 * 1024 * 1024,
+			maxAgeMs: 30 * DAY_MS,
+		});
+	});
+
+	test("reads limits from environment variables", () => {
+		process.env.EXPO_GITHUB_CACHE_MAX_SIZE_MB = "100";
+		process.env.EXPO_GITHUB_CACHE_MAX_AGE_DAYS = "0";
+
+		expect(getLocalCachePolicy()).toEqual({
+			maxSizeBytes: 100 * 1024 * 1024,
+			maxAgeMs: 0,
+		});
+	});
+
+	test("prefers plugin options over environment variables", () => {
+		process.env.EXPO_GITHUB_CACHE_MAX_SIZE_MB = "100";
+
+		expect(
+			getLocalCachePolicy({ localCacheMaxSizeMB: 1, localCacheMaxAgeDays: 2 }),
+		).toEqual({ maxSizeBytes: 1024 * 1024, maxAgeMs: 2 * DAY_MS });
+	});
+
+	test("ignores invalid values", () => {
+		process.env.EXPO_GITHUB_CACHE_MAX_SIZE_MB = "lots";
+
+		expect(getLocalCachePolicy().maxSizeBytes).toBe(10 * 1024 * 1024 * 1024);
+	});
+});
+
+describe("evictLocalCacheAsync", () => {
+	test("removes entries that were not used within the maximum age", async () => {
+		const directory = await trackTempDir();
+		const old = await createEntry(directory, "old.apk", 1, 10 * DAY_MS);
+		const recent = await createEntry(directory, "recent.apk", 1, DAY_MS);
+
+		const evicted = await evictLocalCacheAsync(
+			{ maxSizeBytes: 0, maxAgeMs: 5 * DAY_MS },
+			{ directory },
+		);
+
+		expect(evicted).toEqual([old]);
+		expect(await fs.pathExists(recent)).toBe(true);
+	});
+
+	test("evicts least recently used entries until the size limit is met", async () => {
+		const directory = await trackTempDir();
+		const oldest = await createEntry(directory, "a.apk", 100, 3000);
+		const middle = await createEntry(directory, "b.apk", 100, 2000);
+		const newest = await createEntry(directory, "c.apk", 100, 1000);
+
+		const evicted = await evictLocalCacheAsync(
+			{ maxSizeBytes: 150, maxAgeMs: 0 },
+			{ directory },
+		);
+
+		expect(evicted).toEqual([oldest, middle]);
+		expect(await fs.pathExists(newest)).toBe(true);
+	});
+
+	test("counts directory bundles recursively and never evicts the kept entry", async () => {
+		const directory = await trackTempDir();
+		const bundle = path.join(directory, "Example.app");
+		await fs.outputFile(path.join(bundle, "Frameworks", "a"), Buffer.alloc(80));
+		await fs.outputFile(path.join(bundle, "Info.plist"), Buffer.alloc(80));
+		const lastUsed = new Date(Date.now() - 5000);
+		await fs.utimes(bundle, lastUsed, lastUsed);
+		const apk = await createEntry(directory, "app.apk", 10, 1000);
+
+		const evicted = await evictLocalCacheAsync(
+			{ maxSizeBytes: 100, maxAgeMs: 0 },
+			{ directory, keep: bundle },
+		);
+
+		expect(evicted).toEqual([apk]);
+		expect(await fs.pathExists(bundle)).toBe(true);
+	});
+
+	test("touching an entry protects it from eviction", async () => {
+		const directory = await trackTempDir();
+		const first = await createEntry(directory, "a.apk", 100, 3000);
+		const second = await createEntry(directory, "b.apk", 100, 2000);
+
+		await touchCacheEntryAsync(first);
+		const evicted = await evictLocalCacheAsync(
+			{ maxSizeBytes: 150, maxAgeMs: 0 },
+			{ directory },
+		);
+
+		expect(evicted).toEqual([second]);
+	});
+});
+
+describe("removeStaleTemporaryEntriesAsync", () => {
+	test("removes only old uuid directories and tarballs", async () => {
+		const directory = await trackTempDir();
+		const staleDir = await createEntry(
+			directory,
+			"01890f5e-0000-7000-8000-000000000000/app.apk",
+			1,
+			0,
+		);
+		const staleDirPath = path.dirname(staleDir);
+		const old = new Date(Date.now() - 2 * DAY_MS);
+		await fs.utimes(staleDirPath, old, old);
+		const staleTarball = await createEntry(
+			directory,
+			"01890f5e-0000-7000-8000-000000000001.tar.gz",
+			1,
+			2 * DAY_MS,
+		);
+		const freshDir = path.join(
+			directory,
+			"01890f5e-0000-7000-8000-000000000002",
+		);
+		await fs.ensureDir(freshDir);
+		const cacheDir = path.join(directory, "build-run-cache");
+		await fs.ensureDir(cacheDir);
+		await fs.utimes(cacheDir, old, old);
+
+		const removed = await removeStaleTemporaryEntriesAsync({ directory });
+
+		expect(removed.sort()).toEqual([staleDirPath, staleTarball].sort());
+		expect(await fs.pathExists(freshDir)).toBe(true);
+		expect(await fs.pathExists(cacheDir)).toBe(true);
+	});
+
+	test("removes partial downloads no run resumed for a day", async () => {
+		const directory = await trackTempDir();
+		const stalePartial = await createEntry(
+			directory,
+			"downloads/abc.apk.partial",
+			1,
+			2 * DAY_MS,
+		);
+		const freshPartial = await createEntry(
+			directory,
+			"downloads/def.apk.partial",
+			1,
+			0,
+		);
+
+		expect(await removeStaleTemporaryEntriesAsync({ directory })).toEqual([
+			stalePartial,
+		]);
+		expect(await fs.pathExists(freshPartial)).toBe(true);
+	});
+});
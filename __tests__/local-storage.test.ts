@@ -0,0 +1,234 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as os from "node:os";
+import * as path from "node:path";
+import { text } from "node:stream/consumers";
+import * as fs from "fs-extra";
+import { createLocalStorage } from "../src/local-storage";
+import { createStorageBackend } from "../src/storage";
+import {
+	closeMockServers,
+	createTestManifest,
+	startMockServer,
+} from "./helpers";
+
+const tempRoots: string[] = [];
+
+afterEach(async () => {
+	for (const root of tempRoots.splice(0)) {
+		await fs.remove(root).catch(() => {});
+	}
+});
+
+async function trackTempDir(): Promise<string> {
+	const root = await fs.mkdtemp(path.join(os.tmpdir(), "eggl-storage-test-"));
+	tempRoots.push(root);
+	return root;
+}
+
+describe("createLocalStorage", () => {
+	test("returns null for keys that were never stored", async () => {
+		const root = await trackTempDir();
+		const storage = createLocalStorage({ root: path.join(root, "store") });
+
+		expect(await storage.lookup("fingerprint.abc.ios")).toBeNull();
+		expect(await storage.list()).toEqual([]);
+	});
+
+	test("stores, looks up and downloads a file artifact", async () => {
+		const root = await trackTempDir();
+		const apkPath = path.join(root, "app-debug.apk");
+		await fs.writeFile(apkPath, "fake-apk");
+		const storage = createLocalStorage({ root: path.join(root, "store") });
+
+		await storage.upload({
+			key: "fingerprint.abc.android",
+			filePath: apkPath,
+			name: path.basename(apkPath),
+			manifest: createTestManifest(),
+		});
+		const entry = await storage.lookup("fingerprint.abc.android");
+
+		expect(entry?.name).toBe("app-debug.apk");
+		expect(entry?.size).toBe(8);
+		expect(await fs.pathExists(apkPath)).toBe(true);
+
+		const { body, size } = await storage.download(entry!);
+		expect(size).toBe(8);
+		expect(await text(body as NodeJS.ReadableStream & AsyncIterable<any>)).toBe(
+			"fake-apk",
+		);
+	});
+
+	test("stores the manifest next to the artifact", async () => {
+		const root = await trackTempDir();
+		const apkPath = path.join(root, "app.apk");
+		await fs.writeFile(apkPath, "apk");
+		const storage = createLocalStorage({ root: path.join(root, "store") });
+		const manifest = createTestManifest();
+
+		await storage.upload({
+			key: "fingerprint.abc.android",
+			filePath: apkPath,
+			name: "app.apk",
+			manifest,
+		});
+
+		expect(
+			await storage.fetchManifest?.("fingerprint.abc.android", "app.apk"),
+		).toEqual(manifest);
+		expect(
+			await storage.fetchManifest?.("fingerprint.def.android", "app.apk"),
+		).toBeNull();
+		expect((await storage.list()).map((entry) => entry.name)).toEqual([
+			"app.apk",
+		]);
+	});
+
+	test("keeps several builds under one key and selects them by name", async () => {
+		const root = await trackTempDir();
+		const simulatorPath = path.join(root, "simulator.tar.gz");
+		const devicePath = path.join(root, "device.tar.gz");
+		await fs.writeFile(simulatorPath, "simulator");
+		await fs.writeFile(devicePath, "device");
+		const storage = createLocalStorage({ root: path.join(root, "store") });
+
+		for (const [name, filePath] of [
+			["ios-simulator.app.tar.gz", simulatorPath],
+			["ios-device.app.tar.gz", devicePath],
+		] as const) {
+			await storage.upload({
+				key: "fingerprint.abc.ios",
+				filePath,
+				name,
+				manifest: createTestManifest({ platform: "ios", fileName: name }),
+			});
+		}
+
+		const device = await storage.lookup("fingerprint.abc.ios", {
+			name: "ios-device.app.tar.gz",
+		});
+		expect(device?.size).toBe(6);
+		expect(
+			(await storage.fetchManifest?.("fingerprint.abc.ios", device!.name))
+				?.fileName,
+		).toBe("ios-device.app.tar.gz");
+		expect((await storage.list()).map((entry) => entry.name)).toEqual([
+			"ios-device.app.tar.gz",
+			"ios-simulator.app.tar.gz",
+		]);
+	});
+
+	test("replaces a build uploaded again under the same name", async () => {
+		const root = await trackTempDir();
+		const apkPath = path.join(root, "app.apk");
+		const storage = createLocalStorage({ root: path.join(root, "store") });
+
+		for (const content of ["old", "newer"]) {
+			await fs.writeFile(apkPath, content);
+			await storage.upload({
+				key: "fingerprint.abc.android",
+				filePath: apkPath,
+				name: "android.apk",
+				manifest: createTestManifest({ fileName: "android.apk" }),
+			});
+		}
+
+		expect(await storage.list()).toHaveLength(1);
+		expect(
+			(await storage.lookup("fingerprint.abc.android", { name: "android.apk" }))
+				?.size,
+		).toBe(5);
+	});
+
+	test("lists and deletes stored keys, including keys with slashes", async () => {
+		const root = await trackTempDir();
+		const apkPath = path.join(root, "app.apk");
+		await fs.writeFile(apkPath, "apk");
+		const storage = createLocalStorage({ root: path.join(root, "store") });
+
+		await storage.upload({
+			key: "app/android/abc",
+			filePath: apkPath,
+			name: path.basename(apkPath),
+			manifest: createTestManifest(),
+		});
+		await storage.upload({
+			key: "fingerprint.def.android",
+			filePath: apkPath,
+			name: path.basename(apkPath),
+			manifest: createTestManifest(),
+		});
+
+		expect((await storage.list()).map((entry) => entry.key).sort()).toEqual([
+			"app/android/abc",
+			"fingerprint.def.android",
+		]);
+
+		expect(await storage.delete("app/android/abc")).toBe(true);
+		expect(await storage.delete("app/android/abc")).toBe(false);
+		expect((await storage.list()).map((entry) => entry.key)).toEqual([
+			"fingerprint.def.android",
+		]);
+	});
+});
+
+describe("createStorageBackend", () => {
+	test("returns custom backend implementations unchanged", async () => {
+		const custom = createLocalStorage({ root: "/tmp/custom" });
+
+		expect(
+			await createStorageBackend({ owner: "o", repo: "r", storage: custom }),
+		).toBe(custom);
+	});
+
+	test("creates the local backend from localStoragePath", async () => {
+		const storage = await createStorageBackend({
+			owner: "o",
+			repo: "r",
+			storage: "local",
+			localStoragePath: "/tmp/expo-cache",
+		});
+
+		expect(storage.name).toContain("/tmp/expo-cache");
+	});
+
+	test("checks the Actions artifacts token for the requested access", async () => {
+		const { url } = await startMockServer({
+			"GET /repos/o/r": [200, { private: true, permissions: { push: false } }],
+		});
+		const originalToken = process.env.GITHUB_TOKEN;
+		process.env.GITHUB_TOKEN = "actions-read-only-token";
+		const options = {
+			owner: "o",
+			repo: "r",
+			apiUrl: url,
+			storage: "github-actions-artifacts" as const,
+		};
+
+		try {
+			expect(
+				(await createStorageBackend(options, { access: "read" })).name,
+			).toBe("GitHub Actions artifacts");
+			await expect(createStorageBackend(options)).rejects.toThrow(
+				'"Actions: Read and write" repository permission',
+			);
+		} finally {
+			if (originalToken === undefined) {
+				delete process.env.GITHUB_TOKEN;
+			} else {
+				process.env.GITHUB_TOKEN = originalToken;
+			}
+			closeMockServers();
+		}
+	});
+
+	test("rejects unknown backend names", async () => {
+		await expect(
+			createStorageBackend({
+				owner: "o",
+				repo: "r",
+				storage: "s3" as any,
+			}),
+		).rejects.toThrow('Unknown storage backend "s3"');
+	});
+});
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { Logger } from "../src/logger";
+
+afterEach(() => {
+	mock.restore();
+});
+
+/** Captures console output and JSON lines written to stderr */
+function captureOutput() {
+	const lines: string[] = [];
+	const record = (...args: unknown[]) => {
+		lines.push(args.map(String).join(" "));
+	};
+	spyOn(console, "log").mockImplementation(record);
+	spyOn(console, "warn").mockImplementation(record);
+	spyOn(console, "error").mockImplementation(record);
+	const json: Record<string, string>[] = [];
+	spyOn(process.stderr, "write").mockImplementation((chunk) => {
+		json.push(JSON.parse(String(chunk)));
+		return true;
+	});
+	return { lines, json };
+}
+
+describe("Logger levels", () => {
+	test("reads the level from the environment", () => {
+		expect(new Logger({}, false).level).toBe("info");
+		expect(
+			new Logger({ EXPO_GITHUB_CACHE_LOG_LEVEL: "WARN" }, false).level,
+		).toBe("warn");
+		expect(new Logger({ EXPO_GITHUB_CACHE_VERBOSE: "1" }, false).level).toBe(
+			"debug",
+		);
+		expect(
+			new Logger({ EXPO_GITHUB_CACHE_LOG_LEVEL: "loud" }, false).level,
+		).toBe("info");
+	});
+
+	test("prints only messages at or above the level", () => {
+		const { lines } = captureOutput();
+		const logger = new Logger({ EXPO_GITHUB_CACHE_LOG_LEVEL: "warn" }, false);
+
+		logger.debug("debug");
+		logger.info("info");
+		logger.success("success");
+		logger.warn("warn");
+		logger.error("error");
+
+		expect(lines).toHaveLength(2);
+		expect(lines[0]).toContain("warn");
+		expect(lines[1]).toContain("error");
+	});
+
+	test("prints nothing when silent", () => {
+		const { lines } = captureOutput();
+		const logger = new Logger({}, false);
+		logger.configure({ logLevel: "silent" });
+
+		logger.error("error");
+		logger.startSpinner("working");
+
+		expect(lines).toEqual([]);
+	});
+
+	test("reports expected failures at their own severity", () => {
+		const { lines } = captureOutput();
+		const logger = new Logger({}, false);
+		logger.configure({ logLevel: "error" });
+
+		logger.startSpinner("Searching builds");
+		logger.failSpinner("No cached builds available", "info");
+		logger.failSpinner("Download interrupted", "warn");
+		logger.failSpinner("Download failed");
+
+		expect(lines).toHaveLength(1);
+		expect(lines[0]).toContain("Download failed");
+	});
+
+	test("prefers logLevel over verbose", () => {
+		const logger = new Logger({}, false);
+
+		logger.configure({ verbose: true });
+		expect(logger.level).toBe("debug");
+		logger.configure({ logLevel: "error", verbose: true });
+		expect(logger.level).toBe("error");
+	});
+});
+
+describe("Logger output", () => {
+	test("writes JSON lines to stderr", () => {
+		const { lines, json } = captureOutput();
+		const logger = new Logger({ EXPO_GITHUB_CACHE_LOG_FORMAT: "json" }, true);
+
+		logger.info("Found build");
+		logger.error("Download failed", new Error("timeout"));
+
+		expect(lines).toEqual([]);
+		expect(json).toEqual([
+			{ time: expect.any(String), level: "info", message: "Found build" },
+			{
+				time: expect.any(String),
+				level: "error",
+				message: "Download failed",
+				error: "timeout",
+			},
+		]);
+	});
+
+	test("replaces spinners with throttled progress lines outside a terminal", () => {
+		const { lines } = captureOutput();
+		const logger = new Logger({}, false);
+
+		logger.startSpinner("Downloading");
+		logger.updateSpinner("Downloading 1MB / 10MB (10%)");
+		logger.succeedSpinner("Downloaded");
+
+		expect(lines).toHaveLength(2);
+		expect(lines[0]).toContain("Downloading");
+		expect(lines[1]).toContain("Downloaded");
+	});
+});
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createHash } from "node:crypto";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import {
+	createBuildManifestAsync,
+	formatManifestSummary,
+} from "../src/manifest";
+import { createTestManifest } from "./helpers";
+
+const testProjectRoot = path.join(import.meta.dir, "..");
+const tempRoots: string[] = [];
+
+afterEach(async () => {
+	for (const root of tempRoots.splice(0)) {
+		await fs.remove(root).catch(() => {});
+	}
+});
+
+describe("createBuildManifestAsync", () => {
+	test("describes the artifact and the build it came from", async () => {
+		const root = await fs.mkdtemp(path.join(os.tmpdir(), "eggl-manifest-"));
+		tempRoots.push(root);
+		const filePath = path.join(root, "upload.tmp");
+		await fs.writeFile(filePath, "fake-apk");
+
+		const manifest = await createBuildManifestAsync({
+			fingerprintHash: "abc",
+			platform: "android",
+			projectRoot: testProjectRoot,
+			runOptions: { variant: "release" },
+			filePath,
+			fileName: "app-release.apk",
+		});
+
+		expect(manifest).toMatchObject({
+			schemaVersion: 1,
+			fingerprintHash: "abc",
+			platform: "android",
+			devClient: false,
+			variant: "release",
+			fileName: "app-release.apk",
+			size: 8,
+			sha256: createHash("sha256").update("fake-apk").digest("hex"),
+		});
+		expect(manifest.machine.nodeVersion).toBe(process.version);
+	});
+});
+
+describe("formatManifestSummary", () => {
+	test("includes commit, SDK version, machine and artifact details", () => {
+		const summary = formatManifestSummary(
+			createTestManifest({ configuration: "Release", platform: "ios" }),
+		).join("\n");
+
+		expect(summary).toContain("ci-runner");
+		expect(summary).toContain("Commit: 0123456");
+		expect(summary).toContain("Expo SDK: 53.0.0");
+		expect(summary).toContain("ios Release");
+	});
+
+	test("falls back to unknown for missing commit and SDK version", () => {
+		const summary = formatManifestSummary(
+			createTestManifest({ gitSha: null, sdkVersion: null }),
+		).join("\n");
+
+		expect(summary).toContain("Commit: unknown, Expo SDK: unknown");
+	});
+});
@@ -0,0 +1,247 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import { createGitHubReleasesStorage } from "../src/github";
+import { createLocalStorage } from "../src/local-storage";
+import { pruneRemoteCacheAsync } from "../src/prune";
+import {
+	closeMockServers,
+	createTestManifest,
+	describeRequest,
+	startMockServer,
+} from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const tempRoots: string[] = [];
+
+afterEach(async () => {
+	for (const root of tempRoots.splice(0)) {
+		await fs.remove(root).catch(() => {});
+	}
+});
+
+/** Creates a local storage backend holding builds of the given ages in days */
+async function createStorageWithBuilds(builds: Record<string, number>) {
+	const root = await fs.mkdtemp(path.join(os.tmpdir(), "eggl-prune-"));
+	tempRoots.push(root);
+	const storage = createLocalStorage({ root });
+	const source = path.join(root, "source.apk");
+	await fs.writeFile(source, "apk");
+
+	for (const [key, ageDays] of Object.entries(builds)) {
+		await storage.upload({
+			key,
+			filePath: source,
+			name: "app.apk",
+			manifest: createTestManifest(),
+		});
+		const entry = await storage.lookup(key);
+		const createdAt = new Date(Date.now() - ageDays * DAY_MS);
+		await fs.utimes(entry!.url, createdAt, createdAt);
+	}
+	return storage;
+}
+
+describe("pruneRemoteCacheAsync", () => {
+	test("requires a pruning rule", async () => {
+		const storage = await createStorageWithBuilds({});
+
+		await expect(pruneRemoteCacheAsync(storage, {})).rejects.toThrow(
+			"Remote pruning needs an age limit",
+		);
+	});
+
+	test("deletes builds older than the age limit", async () => {
+		const storage = await createStorageWithBuilds({
+			"fingerprint.old.ios": 40,
+			"fingerprint.new.ios": 1,
+		});
+
+		const pruned = await pruneRemoteCacheAsync(storage, { olderThanDays: 30 });
+
+		expect(pruned.map(({ key, reason }) => ({ key, reason }))).toEqual([
+			{ key: "fingerprint.old.ios", reason: "age" },
+		]);
+		expect((await storage.list()).map((entry) => entry.key)).toEqual([
+			"fingerprint.new.ios",
+		]);
+	});
+
+	test("keeps the newest builds per platform", async () => {
+		const storage = await createStorageWithBuilds({
+			"fingerprint.a.ios": 3,
+			"fingerprint.b.ios": 2,
+			"fingerprint.c.ios": 1,
+			"fingerprint.d.android": 5,
+			"v1.0.0": 100,
+		});
+
+		const pruned = await pruneRemoteCacheAsync(storage, { keepPerPlatform: 2 });
+
+		expect(pruned.map((candidate) => candidate.key)).toEqual([
+			"fingerprint.a.ios",
+		]);
+		expect((await storage.list()).map((entry) => entry.key).sort()).toEqual([
+			"fingerprint.b.ios",
+			"fingerprint.c.ios",
+			"fingerprint.d.android",
+			"v1.0.0",
+		]);
+	});
+
+	test("only considers keys of the configured tag template", async () => {
+		const storage = await createStorageWithBuilds({
+			"my-app/ios/old": 40,
+			"fingerprint.old.ios": 40,
+		});
+
+		const pruned = await pruneRemoteCacheAsync(storage, {
+			olderThanDays: 30,
+			tagTemplate: "{app}/{platform}/{fingerprint}{devClient}",
+		});
+
+		expect(pruned.map((candidate) => candidate.key)).toEqual([
+			"my-app/ios/old",
+		]);
+	});
+
+	test("only reports candidates in dry-run mode", async () => {
+		const storage = await createStorageWithBuilds({
+			"fingerprint.old.android": 40,
+		});
+
+		const pruned = await pruneRemoteCacheAsync(storage, {
+			olderThanDays: 30,
+			dryRun: true,
+		});
+
+		expect(pruned).toHaveLength(1);
+		expect(await storage.lookup("fingerprint.old.android")).not.toBeNull();
+	});
+
+	test("keeps builds of unknown age", async () => {
+		const storage = await createStorageWithBuilds({
+			"fingerprint.old.ios": 40,
+			"fingerprint.unknown.ios": 40,
+		});
+		const list = storage.list;
+		storage.list = async () =>
+			(await list()).map((entry) =>
+				entry.key === "fingerprint.unknown.ios"
+					? { ...entry, createdAt: undefined }
+					: entry,
+			);
+
+		const pruned = await pruneRemoteCacheAsync(storage, { olderThanDays: 30 });
+
+		expect(pruned.map((candidate) => candidate.key)).toEqual([
+			"fingerprint.old.ios",
+		]);
+		expect(await storage.lookup("fingerprint.unknown.ios")).not.toBeNull();
+	});
+});
+
+describe("pruneRemoteCacheAsync with GitHub Releases", () => {
+	afterEach(closeMockServers);
+
+	const daysAgo = (days: number) =>
+		new Date(Date.now() - days * DAY_MS).toISOString();
+
+	const release = (tag: string, ageDays: number, assets: string[] = []) => ({
+		id: tag.length,
+		tag_name: tag,
+		created_at: daysAgo(ageDays),
+		assets: assets.map((name) => ({
+			name,
+			size: 3,
+			url: `https://api.example.com/${name}`,
+			browser_download_url: `https://example.com/${name}`,
+			created_at: daysAgo(ageDays),
+		})),
+	});
+
+	const ref = (name: string, type: "commit" | "tag", sha: string) => ({
+		ref: name,
+		object: { type, sha },
+	});
+
+	/** Serves releases, tags and cache refs left behind by earlier uploads */
+	async function serve() {
+		const { url, requests } = await startMockServer({
+			"GET /repos/o/r/releases": [
+				200,
+				[
+					release("fingerprint.build.ios", 40, [
+						"app.ipa",
+						"app.ipa.manifest.json",
+					]),
+					release("fingerprint.empty.ios", 40),
+					release("fingerprint.manifest.android", 40, [
+						"app.apk.manifest.json",
+					]),
+					release("fingerprint.recent.android", 0),
+				],
+			],
+			"GET /repos/o/r/git/matching-refs/tags%2F": [
+				200,
+				[
+					ref("refs/tags/fingerprint.empty.ios", "commit", "c1"),
+					ref("refs/tags/fingerprint.orphan.ios", "tag", "t1"),
+					ref("refs/tags/v1.0.0", "commit", "c1"),
+				],
+			],
+			"GET /repos/o/r/git/matching-refs/expo-cache%2F": [
+				200,
+				[ref("refs/expo-cache/fingerprint.ref.android", "commit", "c2")],
+			],
+			"GET /repos/o/r/git/tags/t1": [200, { tagger: { date: daysAgo(40) } }],
+			"GET /repos/o/r/git/commits/c2": [
+				200,
+				{ committer: { date: daysAgo(40) } },
+			],
+			"DELETE /repos/o/r/git/refs/tags%2Ffingerprint.orphan.ios": [204],
+		});
+		const storage = createGitHubReleasesStorage({
+			token: "secret",
+			owner: "o",
+			repo: "r",
+			apiUrl: url,
+			refNamespace: "refs/expo-cache",
+		});
+		return { storage, requests };
+	}
+
+	test("deletes releases, tags and refs left without a build", async () => {
+		const { storage, requests } = await serve();
+
+		const pruned = await pruneRemoteCacheAsync(storage, { olderThanDays: 30 });
+
+		expect(pruned.map(({ key, reason }) => ({ key, reason }))).toEqual([
+			{ key: "fingerprint.build.ios", reason: "age" },
+			{ key: "fingerprint.empty.ios", reason: "incomplete" },
+			{ key: "fingerprint.manifest.android", reason: "incomplete" },
+			{ key: "fingerprint.orphan.ios", reason: "incomplete" },
+			{ key: "fingerprint.ref.android", reason: "incomplete" },
+		]);
+		expect(requests.map(describeRequest)).toContain(
+			"DELETE /repos/o/r/git/refs/tags%2Ffingerprint.orphan.ios",
+		);
+	});
+
+	test("deletes leftovers older than a day when only keeping builds", async () => {
+		const { storage } = await serve();
+
+		const pruned = await pruneRemoteCacheAsync(storage, {
+			keepPerPlatform: 1,
+			dryRun: true,
+		});
+
+		expect(pruned.map((candidate) => candidate.key)).toEqual([
+			"fingerprint.empty.ios",
+			"fingerprint.manifest.android",
+			"fingerprint.orphan.ios",
+			"fingerprint.ref.android",
+		]);
+	});
+});
@@ -1,5 +1,8 @@
-import { mock } from "bun:test";
+import { afterAll, mock } from "bun:test";
+import * as os from "node:os";
+import * as path from "node:path";
 import * as spawnAsyncModule from "@expo/spawn-async";
+import * as fs from "fs-extra";
 
 const realSpawn = spawnAsyncModule.default || spawnAsyncModule;
 
@@ -13,3 +16,9 @@ mock.module("@expo/spawn-async", () => ({
 		return realSpawn(command, args, options as Parameters<typeof realSpawn>[2]);
 	},
 }));
+
+// Keep the build cache, statistics and downloads of the test run away from the
+// developer's own. Suites that check them use a directory per test on top.
+const temporaryDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "eggl-test-"));
+process.env.EXPO_GITHUB_CACHE_TEMP_DIR = temporaryDirectory;
+afterAll(() => fs.remove(temporaryDirectory));
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import {
+	type CacheEvent,
+	formatCacheEvent,
+	formatPlatformStats,
+	getCacheStats,
+	printRunSummaryOnExit,
+	readCacheEventsAsync,
+	recordCacheEventAsync,
+	summarizeCacheEvents,
+} from "../src/stats";
+
+const tempRoots: string[] = [];
+
+afterEach(async () => {
+	for (const root of tempRoots.splice(0)) {
+		await fs.remove(root);
+	}
+});
+
+async function createStatsFile(): Promise<string> {
+	const root = await fs.mkdtemp(path.join(os.tmpdir(), "eggl-stats-"));
+	tempRoots.push(root);
+	return path.join(root, "stats.json");
+}
+
+const event = (
+	outcome: CacheEvent["outcome"],
+	overrides: Partial<CacheEvent> = {},
+): CacheEvent => ({
+	time: new Date(0).toISOString(),
+	operation: outcome === "uploaded" ? "upload" : "resolve",
+	outcome,
+	platform: "android",
+	key: "fingerprint.abc.android",
+	bytes: 0,
+	durationMs: 1000,
+	...overrides,
+});
+
+describe("recordCacheEventAsync", () => {
+	test("appends events to the stats file", async () => {
+		const file = await createStatsFile();
+		const { time: _time, ...miss } = event("miss");
+		const { time: _hitTime, ...hit } = event("hit", { bytes: 1024 });
+
+		await recordCacheEventAsync(miss, { file });
+		await recordCacheEventAsync(hit, { file });
+
+		const events = await readCacheEventsAsync({ file });
+		expect(events.map((recorded) => recorded.outcome)).toEqual(["miss", "hit"]);
+		expect(events[1]).toMatchObject({ bytes: 1024, time: expect.any(String) });
+	});
+
+	test("does not write the file when recordStats is false", async () => {
+		const file = await createStatsFile();
+		const { time: _time, ...miss } = event("miss");
+
+		await recordCacheEventAsync(miss, {
+			file,
+			options: { recordStats: false },
+		});
+
+		expect(await fs.pathExists(file)).toBe(false);
+	});
+
+	test("schedules the run summary only once when asked to", async () => {
+		const file = await createStatsFile();
+		const { time: _time, ...miss } = event("miss");
+		const listeners = process.listenerCount("exit");
+
+		await recordCacheEventAsync(miss, { file });
+		expect(process.listenerCount("exit")).toBe(listeners);
+
+		printRunSummaryOnExit();
+		const scheduled = process.listenerCount("exit");
+		printRunSummaryOnExit();
+		expect(process.listenerCount("exit")).toBe(scheduled);
+	});
+
+	test("reads a corrupt stats file as empty", async () => {
+		const file = await createStatsFile();
+		await fs.writeFile(file, "{");
+
+		expect(await readCacheEventsAsync({ file })).toEqual([]);
+	});
+});
+
+describe("summarizeCacheEvents", () => {
+	test("computes the hit rate per platform", () => {
+		const [android, ios] = summarizeCacheEvents([
+			event("hit", { bytes: 100 }),
+			event("local-hit"),
+			event("miss"),
+			event("error"),
+			event("uploaded", { bytes: 50 }),
+			event("miss", { platform: "ios" }),
+		]);
+
+		expect(android).toMatchObject({
+			platform: "android",
+			resolves: 4,
+			hits: 1,
+			localHits: 1,
+			misses: 1,
+			errors: 1,
+			hitRate: 0.5,
+			uploads: 1,
+			bytesDownloaded: 100,
+			bytesUploaded: 50,
+			resolveDurationMs: 4000,
+		});
+		expect(ios).toMatchObject({ platform: "ios", resolves: 1, hitRate: 0 });
+	});
+
+	test("only includes recent events with sinceDays", () => {
+		const now = Date.parse("2024-01-10T00:00:00Z");
+		const [android] = summarizeCacheEvents(
+			[
+				event("miss", { time: "2024-01-01T00:00:00Z" }),
+				event("hit", { time: "2024-01-09T00:00:00Z" }),
+			],
+			{ sinceDays: 7, now },
+		);
+
+		expect(android).toMatchObject({ resolves: 1, hits: 1, hitRate: 1 });
+	});
+
+	test("aggregates the stats file", async () => {
+		const file = await createStatsFile();
+		await fs.writeJson(file, { version: 1, events: [event("hit")] });
+
+		expect(await getCacheStats({ file })).toMatchObject([
+			{ platform: "android", hits: 1 },
+		]);
+	});
+});
+
+describe("formatting", () => {
+	test("formats platform statistics", () => {
+		const [stats] = summarizeCacheEvents([
+			event("hit", { bytes: 2 * 1024 * 1024 }),
+			event("miss"),
+		]);
+
+		expect(formatPlatformStats(stats)).toBe(
+			"android: 50% hit rate over 2 resolve(s) (1 downloaded, 0 local, 1 missed, 0 failed), 2.0 MB downloaded, 0 upload(s) with 0.0 MB",
+		);
+	});
+
+	test("formats an event of the run summary", () => {
+		expect(
+			formatCacheEvent(event("hit", { bytes: 1024 * 1024, durationMs: 12345 })),
+		).toBe("android fingerprint.abc.android: hit, 1.0 MB in 12.3s");
+	});
+});
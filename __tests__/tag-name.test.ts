@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import {
+	getBuildVariant,
+	getTagName,
+	parseTagName,
+	toCacheFileName,
+} from "../src/tag-name";
+
+let projectRoot = "";
+
+// The directory and package share a name so the {app} placeholder resolves the
+// same way even when another test file mocks @expo/config
+beforeAll(async () => {
+	const root = await fs.mkdtemp(path.join(os.tmpdir(), "eggl-tag-name-"));
+	projectRoot = path.join(root, "my-app");
+	await fs.outputJson(path.join(projectRoot, "package.json"), {
+		name: "my-app",
+	});
+});
+
+afterAll(async () => {
+	await fs.remove(path.dirname(projectRoot));
+});
+
+const createBuild = (
+	platform: "ios" | "android" = "ios",
+	runOptions: Record<string, unknown> = {},
+) => ({
+	fingerprintHash: "abc123",
+	projectRoot,
+	runOptions: { buildCache: true, ...runOptions },
+	platform,
+});
+
+describe("getBuildVariant", () => {
+	test("leaves out the default debug builds", () => {
+		expect(getBuildVariant({})).toBe("");
+		expect(getBuildVariant({ variant: "debug" })).toBe("");
+		expect(getBuildVariant({ configuration: "Debug" })).toBe("");
+	});
+
+	test("normalizes variants, flavors, schemes and configurations", () => {
+		expect(getBuildVariant({ variant: "stagingRelease" })).toBe(
+			"staging-release",
+		);
+		expect(
+			getBuildVariant({
+				scheme: "My App",
+				configuration: "Staging" as "Release",
+			}),
+		).toBe("my-app-staging");
+		// `--scheme` without a name picks the scheme interactively
+		expect(getBuildVariant({ scheme: true, configuration: "Release" })).toBe(
+			"release",
+		);
+	});
+});
+
+describe("getTagName", () => {
+	test("uses the fingerprint tag scheme by default", () => {
+		expect(getTagName(createBuild("android"))).toBe(
+			"fingerprint.abc123.android",
+		);
+	});
+
+	test("tells builds of different variants apart", () => {
+		expect(getTagName(createBuild("ios", { configuration: "Release" }))).toBe(
+			"fingerprint.abc123.release.ios",
+		);
+		expect(getTagName(createBuild("android", { variant: "freeRelease" }))).toBe(
+			"fingerprint.abc123.free-release.android",
+		);
+	});
+
+	test("leaves the variant out when disabled", () => {
+		expect(
+			getTagName(createBuild("ios", { configuration: "Release" }), {
+				variantInCacheKey: false,
+			}),
+		).toBe("fingerprint.abc123.ios");
+	});
+
+	test("applies a custom prefix", () => {
+		expect(getTagName(createBuild(), { tagPrefix: "cache-" })).toBe(
+			"cache-abc123.ios",
+		);
+	});
+
+	test("fills in every placeholder of a template", () => {
+		expect(
+			getTagName(createBuild(), {
+				tagTemplate: "{app}/{platform}/{fingerprint}{devClient}",
+			}),
+		).toBe("my-app/ios/abc123");
+	});
+
+	test("rejects templates without fingerprint or platform", () => {
+		expect(() =>
+			getTagName(createBuild(), { tagTemplate: "{app}/{fingerprint}" }),
+		).toThrow("it must contain {fingerprint} and {platform}");
+	});
+});
+
+describe("parseTagName", () => {
+	test("reads the build properties from a cache tag", () => {
+		expect(parseTagName("fingerprint.abc.dev-client.ios")).toEqual({
+			fingerprintHash: "abc",
+			platform: "ios",
+			devClient: true,
+		});
+		expect(parseTagName("fingerprint.abc.android")?.devClient).toBe(false);
+		expect(parseTagName("fingerprint.abc.staging-release.android")).toEqual({
+			fingerprintHash: "abc",
+			platform: "android",
+			devClient: false,
+			variant: "staging-release",
+		});
+	});
+
+	test("ignores tags outside of the cache scheme", () => {
+		expect(parseTagName("v1.2.3")).toBeNull();
+		expect(parseTagName("fingerprint.abc.web")).toBeNull();
+		expect(
+			parseTagName("fingerprint.abc.ios", { tagPrefix: "cache-" }),
+		).toBeNull();
+	});
+
+	test("parses tags created from a template", () => {
+		const options = {
+			tagTemplate: "{app}/{platform}/{fingerprint}{devClient}",
+		};
+
+		expect(parseTagName("my-app/android/abc.dev-client", options)).toEqual({
+			fingerprintHash: "abc",
+			platform: "android",
+			devClient: true,
+		});
+		// Actions artifact names cannot contain "/"
+		expect(parseTagName("my-app_ios_abc", options)?.platform).toBe("ios");
+	});
+});
+
+describe("toCacheFileName", () => {
+	test("replaces path separators", () => {
+		expect(toCacheFileName("my-app/ios/abc")).toBe("my-app_ios_abc");
+	});
+});
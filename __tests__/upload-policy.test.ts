@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import * as path from "node:path";
+import {
+	getCurrentBranchAsync,
+	getUploadSkipReasonAsync,
+	isCIEnvironment,
+	isReadOnly,
+	matchesBranchPattern,
+} from "../src/upload-policy";
+
+const projectRoot = path.join(import.meta.dir, "..");
+
+describe("isCIEnvironment", () => {
+	test("detects common CI providers", () => {
+		expect(isCIEnvironment({ CI: "true" })).toBe(true);
+		expect(isCIEnvironment({ GITHUB_ACTIONS: "true" })).toBe(true);
+		expect(isCIEnvironment({ BITRISE_IO: "true" })).toBe(true);
+	});
+
+	test("ignores unset and disabled variables", () => {
+		expect(isCIEnvironment({})).toBe(false);
+		expect(isCIEnvironment({ CI: "false" })).toBe(false);
+	});
+});
+
+describe("isReadOnly", () => {
+	test("prefers the option over the environment", () => {
+		expect(isReadOnly({}, { EXPO_GITHUB_CACHE_READ_ONLY: "1" })).toBe(true);
+		expect(
+			isReadOnly({ readOnly: false }, { EXPO_GITHUB_CACHE_READ_ONLY: "true" }),
+		).toBe(false);
+		expect(isReadOnly({}, {})).toBe(false);
+	});
+});
+
+describe("matchesBranchPattern", () => {
+	test("matches exact names and wildcards", () => {
+		expect(matchesBranchPattern("main", "main")).toBe(true);
+		expect(matchesBranchPattern("release/1.2", "release/*")).toBe(true);
+		expect(matchesBranchPattern("feature/release", "release/*")).toBe(false);
+		expect(matchesBranchPattern("main2", "main")).toBe(false);
+	});
+});
+
+describe("getCurrentBranchAsync", () => {
+	test("prefers the source branch of pull requests on GitHub Actions", async () => {
+		expect(
+			await getCurrentBranchAsync(projectRoot, {
+				GITHUB_HEAD_REF: "feature/login",
+				GITHUB_REF_NAME: "42/merge",
+			}),
+		).toBe("feature/login");
+	});
+});
+
+describe("getUploadSkipReasonAsync", () => {
+	test("allows uploads without a policy", async () => {
+		expect(await getUploadSkipReasonAsync(projectRoot, {}, {})).toBeNull();
+	});
+
+	test("blocks uploads outside of CI when required", async () => {
+		expect(
+			await getUploadSkipReasonAsync(projectRoot, { uploadOnlyInCI: true }, {}),
+		).toBe("uploads are only allowed in CI");
+		expect(
+			await getUploadSkipReasonAsync(
+				projectRoot,
+				{ uploadOnlyInCI: true },
+				{ CI: "1" },
+			),
+		).toBeNull();
+	});
+
+	test("blocks uploads from branches outside the allowlist", async () => {
+		const options = { uploadBranches: ["main", "release/*"] };
+
+		expect(
+			await getUploadSkipReasonAsync(projectRoot, options, {
+				GITHUB_REF_NAME: "release/2.0",
+			}),
+		).toBeNull();
+		expect(
+			await getUploadSkipReasonAsync(projectRoot, options, {
+				GITHUB_REF_NAME: "feature/x",
+			}),
+		).toBe('branch "feature/x" is not in uploadBranches');
+	});
+});
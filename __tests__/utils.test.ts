@@ -1,4 +1,7 @@
 import { describe, expect, mock, test } from "bun:test";
+import * as path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
 import * as utils from "../src/utils";
 
 // Mock getPackageJson function from @expo/config
@@ -130,5 +133,36 @@ describe("Utils", () => {
 
 			expect(result).toContain("build-run-cache");
 		});
+
+		test("follows EXPO_GITHUB_CACHE_TEMP_DIR", () => {
+			const original = process.env.EXPO_GITHUB_CACHE_TEMP_DIR;
+			process.env.EXPO_GITHUB_CACHE_TEMP_DIR = "/custom/temp";
+			try {
+				expect(utils.getBuildCacheDirectory()).toBe(
+					path.join("/custom/temp", "build-run-cache"),
+				);
+			} finally {
+				if (original === undefined) {
+					delete process.env.EXPO_GITHUB_CACHE_TEMP_DIR;
+				} else {
+					process.env.EXPO_GITHUB_CACHE_TEMP_DIR = original;
+				}
+			}
+		});
+	});
+
+	describe("createProgressStream", () => {
+		test("passes data through unchanged", async () => {
+			const chunks: Buffer[] = [];
+			const stream = utils.createProgressStream(6, "Uploading");
+			stream.on("data", (chunk) => chunks.push(chunk));
+
+			await pipeline(
+				Readable.from([Buffer.from("abc"), Buffer.from("def")]),
+				stream,
+			);
+
+			expect(Buffer.concat(chunks).toString()).toBe("abcdef");
+		});
 	});
 });
@@ -0,0 +1,480 @@
+/**
+ * GitHub Actions artifacts storage backend
+ *
+ * @fileOverview Stores builds as workflow run artifacts instead of releases and tags
+ * @module actions-artifacts
+ */
+
+import * as path from "node:path";
+import { text } from "node:stream/consumers";
+import * as fs from "fs-extra";
+import {
+	isManifestFileName,
+	selectArtifact,
+	toManifestFileName,
+} from "./artifacts";
+import { openUrlDownloadStreamAsync } from "./download";
+import { describeGitHubError } from "./github-access";
+import {
+	createOctokit,
+	fetchWithTrace,
+	getGitHubApiUrl,
+} from "./github-client";
+import { logger } from "./logger";
+import { MANIFEST_FILE_NAME } from "./manifest";
+import { parseTagName } from "./tag-name";
+import type { BuildManifest, CacheEntry, CacheStorageBackend } from "./types";
+import {
+	computeFileSha256Async,
+	createProgressStream,
+	getTemporaryDirectory,
+} from "./utils";
+
+/** Separates the cache key from the build name in artifact names */
+const ARTIFACT_NAME_SEPARATOR = "@";
+
+/** Twirp service used by the Actions runtime to create and finalize artifacts */
+const ARTIFACT_SERVICE_PATH =
+	"twirp/github.actions.results.api.v1.ArtifactService";
+
+/**
+ * Configuration of the Actions artifacts storage backend
+ */
+interface ActionsArtifactsConfig {
+	/** GitHub token with `actions:read` (and `actions:write` for deletes) */
+	token: string;
+	/** Repository owner or organization name */
+	owner: string;
+	/** Repository name */
+	repo: string;
+	/** REST API base URL, defaults to `GITHUB_API_URL` or https://api.github.com */
+	apiUrl?: string;
+	/** Artifact retention in days, defaults to the repository setting */
+	retentionDays?: number;
+	/** Recognizes the artifact names of cached builds, defaults to the default tag scheme */
+	isCacheKey?: (name: string) => boolean;
+}
+
+/**
+ * Runtime credentials available to steps of a running workflow job
+ */
+interface ActionsRuntime {
+	/** Base URL of the Actions results service (`ACTIONS_RESULTS_URL`) */
+	resultsUrl: string;
+	/** Job scoped runtime token (`ACTIONS_RUNTIME_TOKEN`) */
+	runtimeToken: string;
+	/** Backend ID of the current workflow run */
+	workflowRunBackendId: string;
+	/** Backend ID of the current workflow job */
+	workflowJobRunBackendId: string;
+}
+
+/**
+ * Reads the Actions runtime credentials needed to upload artifacts
+ *
+ * The run and job backend IDs are encoded in the `scp` claim of the runtime
+ * token as `Actions.Results:<runId>:<jobId>`.
+ *
+ * @returns {ActionsRuntime} - Runtime credentials of the current job
+ * @throws {Error} - When not running inside a GitHub Actions job
+ */
+export function getActionsRuntime(): ActionsRuntime {
+	const resultsUrl = process.env.ACTIONS_RESULTS_URL;
+	const runtimeToken = process.env.ACTIONS_RUNTIME_TOKEN;
+	if (!resultsUrl || !runtimeToken) {
+		throw new Error(
+			"Uploading to GitHub Actions artifacts requires a workflow job (ACTIONS_RESULTS_URL and ACTIONS_RUNTIME_TOKEN are not set)",
+		);
+	}
+
+	let scopes = "";
+	try {
+		const [, payload = ""] = runtimeToken.split(".");
+		({ scp: scopes = "" } = JSON.parse(
+			Buffer.from(payload, "base64url").toString("utf8"),
+		));
+	} catch {
+		// Handled below, an unreadable token has no results scope
+	}
+
+	const resultsScope = scopes
+		.split(" ")
+		.find((scope) => scope.startsWith("Actions.Results:"));
+	const [, workflowRunBackendId, workflowJobRunBackendId] =
+		resultsScope?.split(":") ?? [];
+	if (!workflowRunBackendId || !workflowJobRunBackendId) {
+		throw new Error(
+			"ACTIONS_RUNTIME_TOKEN does not contain workflow run information",
+		);
+	}
+
+	return {
+		resultsUrl,
+		runtimeToken,
+		workflowRunBackendId,
+		workflowJobRunBackendId,
+	};
+}
+
+/**
+ * Calls a method of the Actions artifact Twirp service
+ *
+ * @param {ActionsRuntime} runtime - Runtime credentials of the current job
+ * @param {string} method - Twirp method name
+ * @param {object} body - JSON request body
+ * @returns {Promise<any>} - Parsed JSON response
+ */
+async function callArtifactService(
+	runtime: ActionsRuntime,
+	method: string,
+	body: object,
+): Promise<any> {
+	const url = new URL(
+		`${ARTIFACT_SERVICE_PATH}/${method}`,
+		runtime.resultsUrl.endsWith("/")
+			? runtime.resultsUrl
+			: `${runtime.resultsUrl}/`,
+	);
+	const response = await fetchWithTrace(url.toString(), {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			Authorization: `Bearer ${runtime.runtimeToken}`,
+		},
+		body: JSON.stringify(body),
+	});
+
+	if (!response.ok) {
+		throw new Error(
+			`Artifact service ${method} failed: ${response.status} ${await response.text()}`,
+		);
+	}
+
+	const data: any = await response.json();
+	if (data.ok === false) {
+		throw new Error(`Artifact service ${method} was rejected`);
+	}
+	return data;
+}
+
+/**
+ * Uploads a file as a new artifact of the current workflow run
+ *
+ * @param {ActionsRuntime} runtime - Runtime credentials of the current job
+ * @param {string} name - Artifact name
+ * @param {string} filePath - File to upload
+ * @param {number} [retentionDays] - Artifact retention in days
+ * @returns {Promise<string>} - ID of the created artifact
+ */
+async function uploadArtifact(
+	runtime: ActionsRuntime,
+	name: string,
+	filePath: string,
+	retentionDays?: number,
+): Promise<string> {
+	const { size } = await fs.stat(filePath);
+	const backendIds = {
+		workflow_run_backend_id: runtime.workflowRunBackendId,
+		workflow_job_run_backend_id: runtime.workflowJobRunBackendId,
+	};
+
+	logger.startSpinner(`Creating artifact ${name}`);
+	const { signed_upload_url: uploadUrl } = await callArtifactService(
+		runtime,
+		"CreateArtifact",
+		{
+			...backendIds,
+			name,
+			// Version 7 stores the file as it is instead of expecting a zip archive
+			version: 7,
+			mime_type: "application/octet-stream",
+			...(retentionDays
+				? {
+						expires_at: new Date(
+							Date.now() + retentionDays * 24 * 60 * 60 * 1000,
+						).toISOString(),
+					}
+				: {}),
+		},
+	);
+
+	const response = await fetchWithTrace(uploadUrl, {
+		method: "PUT",
+		headers: {
+			"Content-Type": "application/octet-stream",
+			"Content-Length": size.toString(),
+			"x-ms-blob-type": "BlockBlob",
+		},
+		body: fs
+			.createReadStream(filePath)
+			.pipe(createProgressStream(size, `Uploading ${name}`)),
+	});
+	if (!response.ok) {
+		throw new Error(
+			`Artifact upload failed: ${response.status} ${response.statusText}`,
+		);
+	}
+
+	const { artifact_id: artifactId } = await callArtifactService(
+		runtime,
+		"FinalizeArtifact",
+		{
+			...backendIds,
+			name,
+			size: size.toString(),
+			hash: { value: `sha256:${await computeFileSha256Async(filePath)}` },
+		},
+	);
+	logger.succeedSpinner(`Artifact ${name} created with ID: ${artifactId}`);
+
+	return artifactId;
+}
+
+/**
+ * Converts a cache key and artifact name into a valid artifact name
+ *
+ * Artifact names may not contain `"`, `:`, `<`, `>`, `|`, `*`, `?`, `\` or `/`.
+ * Several builds stored under one key are named `<key>@<artifact name>`.
+ *
+ * @param {string} key - Cache key
+ * @param {string} [name] - Name of the stored build or manifest
+ * @returns {string} - Artifact name
+ */
+export function toArtifactName(key: string, name?: string): string {
+	const sanitize = (value: string) => value.replace(/[\\/:*?"<>|\r\n]/g, "_");
+	return name === undefined
+		? sanitize(key)
+		: `${sanitize(key)}${ARTIFACT_NAME_SEPARATOR}${sanitize(name)}`;
+}
+
+/**
+ * Splits an artifact name into the cache key and the stored file name
+ *
+ * Artifacts uploaded before several builds could share a key are named after
+ * the key alone and hold a single build, with the manifest in `<key>.manifest.json`.
+ *
+ * @param {string} artifactName - Artifact name
+ * @returns {{key: string, name: string}} - Cache key and stored file name
+ */
+function parseArtifactName(artifactName: string): {
+	key: string;
+	name: string;
+} {
+	const separatorIndex = artifactName.lastIndexOf(ARTIFACT_NAME_SEPARATOR);
+	if (separatorIndex <= 0) {
+		const key = artifactName.endsWith(`.${MANIFEST_FILE_NAME}`)
+			? artifactName.slice(0, -MANIFEST_FILE_NAME.length - 1)
+			: artifactName;
+		return {
+			key,
+			name: artifactName === key ? key : MANIFEST_FILE_NAME,
+		};
+	}
+	return {
+		key: artifactName.slice(0, separatorIndex),
+		name: artifactName.slice(separatorIndex + 1),
+	};
+}
+
+/**
+ * Creates a storage backend that keeps every build as a GitHub Actions
+ * artifact named after the cache key and build
+ *
+ * Lookups and downloads work anywhere a token with `actions:read` is
+ * available, uploads only from inside a workflow job.
+ *
+ * @param {ActionsArtifactsConfig} config - Repository, token and API configuration
+ * @returns {CacheStorageBackend} - GitHub Actions artifacts storage backend
+ */
+export function createActionsArtifactsStorage({
+	token,
+	owner,
+	repo,
+	apiUrl: configuredApiUrl,
+	retentionDays,
+	isCacheKey = (name) => parseTagName(name) !== null,
+}: ActionsArtifactsConfig): CacheStorageBackend {
+	const apiUrl = getGitHubApiUrl(configuredApiUrl);
+	const octokit = createOctokit({ token, apiUrl });
+
+	/** Lists the non-expired artifacts, optionally only those with a name, newest first */
+	async function findArtifacts(name?: string) {
+		const artifacts = await octokit.paginate(
+			octokit.rest.actions.listArtifactsForRepo,
+			{ owner, repo, name, per_page: 100 },
+		);
+		return artifacts
+			.filter(
+				(artifact) =>
+					(name === undefined || artifact.name === name) && !artifact.expired,
+			)
+			.sort((a, b) => (b.created_at ?? "").localeCompare(a.created_at ?? ""));
+	}
+
+	/** Lists the artifacts and manifests stored under a key, newest first */
+	async function findKeyArtifacts(key: string) {
+		const artifactKey = toArtifactName(key);
+		return (await findArtifacts()).filter(
+			(artifact) => parseArtifactName(artifact.name).key === artifactKey,
+		);
+	}
+
+	function toCacheEntry(
+		key: string,
+		artifact: Awaited<ReturnType<typeof findArtifacts>>[number],
+	): CacheEntry {
+		return {
+			key,
+			name: parseArtifactName(artifact.name).name,
+			size: artifact.size_in_bytes,
+			url: artifact.archive_download_url,
+			createdAt: artifact.created_at ?? undefined,
+		};
+	}
+
+	/** Deletes an artifact, explaining tokens without `actions: write` */
+	async function deleteArtifact(artifactId: number): Promise<void> {
+		try {
+			await octokit.rest.actions.deleteArtifact({
+				owner,
+				repo,
+				artifact_id: artifactId,
+			});
+		} catch (error: any) {
+			// Expired artifacts are removed by GitHub in the meantime
+			if (error.status === 404) {
+				return;
+			}
+			const guidance = describeGitHubError(error, {
+				owner,
+				repo,
+				access: "write",
+				permission: "actions",
+			});
+			if (!guidance) {
+				throw error;
+			}
+			throw Object.assign(new Error(guidance), { status: error.status });
+		}
+	}
+
+	/** Downloads and parses a manifest artifact */
+	async function readManifest(
+		artifact: Awaited<ReturnType<typeof findArtifacts>>[number],
+	): Promise<BuildManifest> {
+		const { body } = await openUrlDownloadStreamAsync(
+			artifact.archive_download_url,
+			token,
+			{ apiUrl },
+		);
+		return JSON.parse(
+			await text(body as NodeJS.ReadableStream & AsyncIterable<any>),
+		) as BuildManifest;
+	}
+
+	return {
+		name: "GitHub Actions artifacts",
+
+		async lookup(key, selector) {
+			if (selector?.name) {
+				const [artifact] = await findArtifacts(
+					toArtifactName(key, selector.name),
+				);
+				if (artifact) {
+					return toCacheEntry(key, artifact);
+				}
+				// Artifacts uploaded before several builds could share a key hold a single build
+				const [legacyArtifact] = await findArtifacts(toArtifactName(key));
+				return legacyArtifact ? toCacheEntry(key, legacyArtifact) : null;
+			}
+			const entries = (await findKeyArtifacts(key)).map((artifact) =>
+				toCacheEntry(key, artifact),
+			);
+			return selectArtifact(entries, selector) ?? null;
+		},
+
+		download(entry, options) {
+			return openUrlDownloadStreamAsync(entry.url, token, {
+				...options,
+				apiUrl,
+			});
+		},
+
+		async upload({ key, filePath, name, manifest }) {
+			const runtime = getActionsRuntime();
+			const manifestName = toManifestFileName(name);
+			// Lookups prefer the newest artifact, older ones are removed once the upload succeeded
+			const replaced = [
+				...(await findArtifacts(toArtifactName(key, name))),
+				...(await findArtifacts(toArtifactName(key, manifestName))),
+			];
+
+			const artifactId = await uploadArtifact(
+				runtime,
+				toArtifactName(key, name),
+				filePath,
+				retentionDays,
+			);
+
+			const manifestPath = path.join(
+				getTemporaryDirectory(),
+				toArtifactName(key, manifestName),
+			);
+			await fs.outputJson(manifestPath, manifest, { spaces: 2 });
+			try {
+				await uploadArtifact(
+					runtime,
+					toArtifactName(key, manifestName),
+					manifestPath,
+					retentionDays,
+				);
+			} finally {
+				await fs.remove(manifestPath);
+			}
+
+			for (const artifact of replaced) {
+				await deleteArtifact(artifact.id);
+			}
+
+			return `${apiUrl}/repos/${owner}/${repo}/actions/artifacts/${artifactId}`;
+		},
+
+		async fetchManifest(key, name) {
+			const [artifact] = await findArtifacts(
+				toArtifactName(key, toManifestFileName(name)),
+			);
+			if (artifact) {
+				return readManifest(artifact);
+			}
+
+			const [legacyArtifact] = await findArtifacts(
+				`${toArtifactName(key)}.${MANIFEST_FILE_NAME}`,
+			);
+			if (!legacyArtifact) {
+				return null;
+			}
+			// A legacy manifest only describes the artifact it names
+			const manifest = await readManifest(legacyArtifact);
+			return manifest.fileName === name ? manifest : null;
+		},
+
+		async delete(key) {
+			const artifacts = await findKeyArtifacts(key);
+			for (const artifact of artifacts) {
+				await deleteArtifact(artifact.id);
+			}
+			return artifacts.length > 0;
+		},
+
+		async list() {
+			return (await findArtifacts())
+				.filter((artifact) => {
+					const { key, name } = parseArtifactName(artifact.name);
+					return isCacheKey(key) && !isManifestFileName(name);
+				})
+				.map((artifact) =>
+					toCacheEntry(parseArtifactName(artifact.name).key, artifact),
+				);
+		},
+	};
+}
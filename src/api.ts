@@ -0,0 +1,202 @@
+/**
+ * Programmatic API
+ *
+ * @fileOverview Restores, publishes and inspects cached builds from scripts without Expo's plugin props
+ * @module api
+ */
+
+import * as fs from "fs-extra";
+import buildCachePlugin from "./index";
+import { removeStaleTemporaryEntriesAsync } from "./local-cache";
+import { createStorageBackend } from "./storage";
+import { getTagName, parseTagName } from "./tag-name";
+import type { CacheEntry, GitHubCacheOptions, RunOptions } from "./types";
+import { getBuildCacheDirectory } from "./utils";
+
+/**
+ * Variant selection of a build, matching the flags passed to `expo run`
+ */
+export interface BuildVariantOptions {
+	/** Android build variant (e.g. "debug", "release") */
+	variant?: string;
+	/** iOS build configuration (e.g. "Debug", "Release") */
+	configuration?: string;
+	/** iOS Xcode scheme */
+	scheme?: string;
+}
+
+/**
+ * Build a cache key is computed for
+ */
+export interface BuildSelectionOptions extends BuildVariantOptions {
+	/** Fingerprint hash of the project, e.g. from `@expo/fingerprint` */
+	fingerprintHash: string;
+	/** Target platform */
+	platform: "ios" | "android";
+	/** Expo project directory (default: current directory) */
+	projectRoot?: string;
+}
+
+/**
+ * Options of `resolveBuild`
+ */
+export interface ResolveBuildOptions extends BuildSelectionOptions {
+	/** Plugin options with the repository configuration */
+	options: GitHubCacheOptions;
+}
+
+/**
+ * Options of `publishBuild`
+ */
+export interface PublishBuildOptions extends BuildSelectionOptions {
+	/** Path to the built .app bundle, .ipa, .apk or .aab */
+	buildPath: string;
+	/** Plugin options with the repository configuration */
+	options: GitHubCacheOptions;
+}
+
+/**
+ * Options of `listCachedBuilds`
+ */
+export interface ListCachedBuildsOptions {
+	/** Plugin options with the repository configuration */
+	options: GitHubCacheOptions;
+	/** Only list builds of this platform */
+	platform?: "ios" | "android";
+	/** Only list builds whose cache key contains this fingerprint hash */
+	fingerprintHash?: string;
+}
+
+/**
+ * Options of `computeTagName`
+ */
+export interface ComputeTagNameOptions extends BuildSelectionOptions {
+	/** Plugin options with the tag naming configuration */
+	options?: Partial<GitHubCacheOptions>;
+}
+
+/**
+ * Builds the run options Expo would pass for a variant selection
+ *
+ * @param {BuildVariantOptions} selection - Variant, configuration and scheme
+ * @returns {RunOptions} - Run options with the build cache enabled
+ */
+export function toRunOptions({
+	variant,
+	configuration,
+	scheme,
+}: BuildVariantOptions): RunOptions {
+	return {
+		buildCache: true,
+		...(variant ? { variant } : {}),
+		...(configuration
+			? { configuration: configuration as "Debug" | "Release" }
+			: {}),
+		...(scheme ? { scheme } : {}),
+	};
+}
+
+/**
+ * Restores a cached build into the local cache, downloading it if needed
+ *
+ * @param {ResolveBuildOptions} params - Build to restore and plugin options
+ * @returns {Promise<string | null>} - Path to the restored build or null when none is cached
+ */
+export function resolveBuild({
+	options,
+	projectRoot = process.cwd(),
+	platform,
+	fingerprintHash,
+	...selection
+}: ResolveBuildOptions): Promise<string | null> {
+	return buildCachePlugin.resolveBuildCache(
+		{
+			projectRoot,
+			platform,
+			fingerprintHash,
+			runOptions: toRunOptions(selection),
+		},
+		{ runSummary: false, ...options },
+	);
+}
+
+/**
+ * Publishes a build, honoring the upload policy of the options
+ *
+ * @param {PublishBuildOptions} params - Build to publish and plugin options
+ * @returns {Promise<string | null>} - URL of the published build or null when it was not published
+ */
+export function publishBuild({
+	options,
+	projectRoot = process.cwd(),
+	platform,
+	fingerprintHash,
+	buildPath,
+	...selection
+}: PublishBuildOptions): Promise<string | null> {
+	return buildCachePlugin.uploadBuildCache(
+		{
+			projectRoot,
+			platform,
+			fingerprintHash,
+			buildPath,
+			runOptions: toRunOptions(selection),
+		},
+		{ runSummary: false, ...options },
+	);
+}
+
+/**
+ * Lists the builds stored in the configured backend
+ *
+ * @param {ListCachedBuildsOptions} params - Plugin options and filters
+ * @returns {Promise<CacheEntry[]>} - Cached builds
+ * @throws {Error} - When the backend cannot be reached
+ */
+export async function listCachedBuilds({
+	options,
+	platform,
+	fingerprintHash,
+}: ListCachedBuildsOptions): Promise<CacheEntry[]> {
+	const storage = await createStorageBackend(options, { access: "read" });
+	return (await storage.list()).filter(
+		(entry) =>
+			(!fingerprintHash || entry.key.includes(fingerprintHash)) &&
+			(!platform || parseTagName(entry.key, options)?.platform === platform),
+	);
+}
+
+/**
+ * Computes the cache key (tag name) a build is stored under
+ *
+ * @param {ComputeTagNameOptions} params - Build and tag naming options
+ * @returns {string} - Cache key such as "fingerprint.abc123.ios"
+ * @throws {Error} - When the tag template is invalid
+ */
+export function computeTagName({
+	options = {},
+	projectRoot = process.cwd(),
+	platform,
+	fingerprintHash,
+	...selection
+}: ComputeTagNameOptions): string {
+	return getTagName(
+		{
+			fingerprintHash,
+			projectRoot,
+			platform,
+			runOptions: toRunOptions(selection),
+		},
+		options,
+	);
+}
+
+/**
+ * Removes all locally cached builds and temporary files
+ *
+ * @returns {Promise<string[]>} - Paths of the removed temporary files
+ */
+export async function clearLocalCache(): Promise<string[]> {
+	await fs.remove(getBuildCacheDirectory());
+	return removeStaleTemporaryEntriesAsync({ maxAgeMs: 0 });
+}
@@ -0,0 +1,216 @@
+/**
+ * Build artifact naming and selection
+ *
+ * @fileOverview Names artifacts by build type and picks the right one among several stored under a key
+ * @module artifacts
+ */
+
+import * as path from "node:path";
+import { MANIFEST_FILE_NAME } from "./manifest";
+import type {
+	ArtifactFormat,
+	ArtifactSelector,
+	BuildTarget,
+	GitHubCacheOptions,
+} from "./types";
+
+/** Artifact names created by `getBuildArtifactName` */
+const BUILD_ARTIFACT_NAME_PATTERN = /^(ios|android)(-[a-z]+)?\./;
+
+/**
+ * Returns the name of the manifest stored next to an artifact
+ *
+ * @param {string} artifactName - Name of the build artifact
+ * @returns {string} - Manifest file name, e.g. "ios-simulator.app.tar.gz.manifest.json"
+ */
+export function toManifestFileName(artifactName: string): string {
+	return `${artifactName}.${MANIFEST_FILE_NAME}`;
+}
+
+/**
+ * Checks whether a stored file is a manifest rather than a build
+ *
+ * @param {string} name - Stored file name
+ * @returns {boolean} - True for per-artifact and legacy `manifest.json` files
+ */
+export function isManifestFileName(name: string): boolean {
+	return name === MANIFEST_FILE_NAME || name.endsWith(`.${MANIFEST_FILE_NAME}`);
+}
+
+/**
+ * Kind of build stored in the cache
+ */
+export interface BuildType {
+	/** Target platform */
+	platform: "ios" | "android";
+	/** Artifact format */
+	format: ArtifactFormat;
+	/** Whether an iOS build is a simulator or device build */
+	target?: BuildTarget;
+}
+
+/** Extensions of the file formats that are uploaded as they are */
+const FILE_FORMATS: Record<string, ArtifactFormat> = {
+	".ipa": "ipa",
+	".apk": "apk",
+	".aab": "aab",
+};
+
+/**
+ * Returns the build type `expo run` expects for a platform
+ *
+ * @param {"ios" | "android"} platform - Target platform
+ * @param {GitHubCacheOptions} options - Plugin options
+ * @returns {BuildType} - Build type to restore
+ */
+export function getExpectedBuildType(
+	platform: "ios" | "android",
+	options: Partial<GitHubCacheOptions>,
+): BuildType {
+	if (platform === "android") {
+		return { platform, format: options.androidArtifactFormat ?? "apk" };
+	}
+	const format = options.iosArtifactFormat ?? "app";
+	return {
+		platform,
+		format,
+		// .ipa files only run on devices
+		target:
+			format === "ipa" ? "device" : (options.iosBuildTarget ?? "simulator"),
+	};
+}
+
+/**
+ * Detects the build type of a build that is about to be uploaded
+ *
+ * `.ipa`, `.apk` and `.aab` files are recognized by their extension. Whether
+ * an iOS .app bundle is a simulator or device build is read from the Xcode
+ * products directory it was built into.
+ *
+ * @param {"ios" | "android"} platform - Target platform
+ * @param {string} buildPath - Path of the build
+ * @param {GitHubCacheOptions} options - Plugin options used when the path does not tell
+ * @returns {BuildType} - Build type of the upload
+ * @throws {Error} - When the build cannot be used for the platform
+ */
+export function detectBuildType(
+	platform: "ios" | "android",
+	buildPath: string,
+	options: Partial<GitHubCacheOptions>,
+): BuildType {
+	const extension = path.extname(buildPath).toLowerCase();
+	const format = FILE_FORMATS[extension];
+
+	if (platform === "android") {
+		if (format !== "apk" && format !== "aab") {
+			throw new Error(
+				`Unsupported Android build ${path.basename(buildPath)}, expected an .apk or .aab file`,
+			);
+		}
+		return { platform, format };
+	}
+
+	if (format === "ipa") {
+		return { platform, format, target: "device" };
+	}
+	if (format) {
+		throw new Error(
+			`Unsupported iOS build ${path.basename(buildPath)}, expected an .app bundle or .ipa file`,
+		);
+	}
+	return {
+		platform,
+		format: "app",
+		target:
+			detectIosBuildTarget(buildPath) ?? options.iosBuildTarget ?? "simulator",
+	};
+}
+
+/**
+ * Returns the name a build is stored under, which identifies its type so
+ * several builds can share one cache key
+ *
+ * @param {BuildType} buildType - Kind of build
+ * @returns {string} - Artifact name, e.g. "ios-simulator.app.tar.gz", "ios-device.ipa" or "android.aab"
+ */
+export function getBuildArtifactName({
+	platform,
+	format,
+	target = "simulator",
+}: BuildType): string {
+	if (platform === "android") {
+		return `android.${format}`;
+	}
+	return format === "ipa" ? "ios-device.ipa" : `ios-${target}.app.tar.gz`;
+}
+
+/**
+ * Returns the selector matching the builds of a build type
+ *
+ * Artifacts uploaded before builds were named by type are matched by their
+ * file extension.
+ *
+ * @param {BuildType} buildType - Kind of build
+ * @returns {ArtifactSelector} - Selector for storage lookups
+ */
+export function getBuildArtifactSelector(
+	buildType: BuildType,
+): ArtifactSelector {
+	return {
+		name: getBuildArtifactName(buildType),
+		extensions: [
+			buildType.format === "app" ? ".tar.gz" : `.${buildType.format}`,
+		],
+	};
+}
+
+/**
+ * Detects whether an iOS build is a simulator or device build from its path
+ *
+ * Xcode places builds in `<Configuration>-iphonesimulator` or
+ * `<Configuration>-iphoneos` product directories.
+ *
+ * @param {string} buildPath - Path of the built .app bundle
+ * @returns {BuildTarget | null} - Build target or null when the path does not tell
+ */
+export function detectIosBuildTarget(buildPath: string): BuildTarget | null {
+	if (/-iphonesimulator([\\/]|$)/.test(buildPath)) {
+		return "simulator";
+	}
+	if (/-iphoneos([\\/]|$)/.test(buildPath)) {
+		return "device";
+	}
+	return null;
+}
+
+/**
+ * Picks the artifact matching a selector among the files stored under a key
+ *
+ * Manifests are never selected. Without a selector the first build is
+ * returned. An artifact with the exact name wins; otherwise an artifact with a
+ * matching extension is accepted unless it is named after a different build type.
+ *
+ * @param {T[]} artifacts - Files stored under a cache key
+ * @param {ArtifactSelector} [selector] - Expected name and extensions
+ * @returns {T | undefined} - Selected artifact
+ */
+export function selectArtifact<T extends { name: string }>(
+	artifacts: T[],
+	{ name, extensions }: ArtifactSelector = {},
+): T | undefined {
+	const builds = artifacts.filter(
+		(artifact) => !isManifestFileName(artifact.name),
+	);
+	if (!name && !extensions) {
+		return builds[0];
+	}
+
+	return (
+		builds.find((artifact) => artifact.name === name) ??
+		builds.find(
+			(artifact) =>
+				!BUILD_ARTIFACT_NAME_PATTERN.test(artifact.name) &&
+				extensions?.some((extension) => artifact.name.endsWith(extension)),
+		)
+	);
+}
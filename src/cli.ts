@@ -0,0 +1,444 @@
+#!/usr/bin/env node
+/**
+ * Command line interface for inspecting and managing the build cache
+ *
+ * @fileOverview Implements the `expo-github-cache` bin
+ * @module cli
+ */
+
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import { getConfig } from "@expo/config";
+import { clearLocalCache, toRunOptions } from "./api";
+import buildCachePlugin from "./index";
+import {
+	evictLocalCacheAsync,
+	getLocalCachePolicy,
+	removeStaleTemporaryEntriesAsync,
+} from "./local-cache";
+import { logger } from "./logger";
+import { formatManifestSummary } from "./manifest";
+import { pruneRemoteCacheAsync } from "./prune";
+import { formatPlatformStats, getCacheStats } from "./stats";
+import { createStorageBackend } from "./storage";
+import { parseTagName } from "./tag-name";
+import type { GitHubCacheOptions, LogLevel } from "./types";
+
+const USAGE = `Usage: expo-github-cache <command> [options]
+
+Commands:
+  list                              List cached builds
+  show <fingerprint>                Show cached builds and manifests for a fingerprint
+  download <fingerprint>            Download a build into the local cache (requires --platform)
+  upload <path>                     Upload a build (requires --fingerprint and --platform)
+  prune                             Apply the local cache size and age limits
+  prune --remote                    Delete old builds from the storage backend
+  clear-local                       Remove all locally cached builds and temporary files
+  stats                             Show the cache hit rate per platform on this machine
+
+Options:
+  --platform <ios|android>          Target platform
+  --fingerprint <hash>              Fingerprint hash of the build to upload
+  --variant <name>                  Android build variant (e.g. debug, release)
+  --configuration <name>            iOS build configuration (e.g. Debug, Release)
+  --scheme <name>                   iOS Xcode scheme
+  --target <simulator|device>       iOS build target to download (default: simulator)
+  --format <app|ipa|apk|aab>        Build format to download (default: app on iOS, apk on Android)
+  --older-than-days <days>          prune --remote: delete builds older than this
+  --keep <count>                    prune --remote: keep the newest builds per platform
+  --dry-run                         prune --remote: only print what would be deleted
+  --days <days>                     stats: only include the last days
+  --project-root <path>             Expo project directory (default: current directory)
+  --owner <owner>                   Repository owner (default: from the app config)
+  --repo <repo>                     Repository name (default: from the app config)
+  --verbose                         Print debug output such as the remaining GitHub API quota and HTTP requests
+  --quiet                           Only print errors
+  --log-level <level>               debug, info, warn, error or silent (default: info)
+  --log-format <text|json>          Print log messages as text or as JSON lines on stderr
+  -h, --help                        Show this help`;
+
+/**
+ * Parsed command line arguments
+ */
+type CliArgs = ReturnType<typeof parseCliArgs>;
+
+/**
+ * Parses the command line arguments
+ *
+ * @param {string[]} argv - Arguments without the node binary and script path
+ * @returns {Object} - Parsed options and positionals
+ */
+function parseCliArgs(argv: string[]) {
+	return parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			platform: { type: "string" },
+			fingerprint: { type: "string" },
+			variant: { type: "string" },
+			configuration: { type: "string" },
+			scheme: { type: "string" },
+			target: { type: "string" },
+			format: { type: "string" },
+			remote: { type: "boolean" },
+			"older-than-days": { type: "string" },
+			keep: { type: "string" },
+			"dry-run": { type: "boolean" },
+			days: { type: "string" },
+			"project-root": { type: "string" },
+			owner: { type: "string" },
+			repo: { type: "string" },
+			verbose: { type: "boolean" },
+			quiet: { type: "boolean" },
+			"log-level": { type: "string" },
+			"log-format": { type: "string" },
+			help: { type: "boolean", short: "h" },
+		},
+	});
+}
+
+/**
+ * Reads the plugin options from the project's app config
+ *
+ * `--owner` and `--repo` take precedence over the configured values.
+ *
+ * @param {string} projectRoot - Expo project directory
+ * @param {CliArgs["values"]} values - Parsed command line options
+ * @returns {GitHubCacheOptions} - Plugin options
+ * @throws {Error} - When no repository is configured
+ */
+export function readPluginOptions(
+	projectRoot: string,
+	values: Pick<CliArgs["values"], "owner" | "repo">,
+): GitHubCacheOptions {
+	let configuredOptions: Partial<GitHubCacheOptions> = {};
+	try {
+		const { exp } = getConfig(projectRoot, {
+			skipSDKVersionRequirement: true,
+		});
+		const provider =
+			exp.buildCacheProvider ?? exp.experiments?.buildCacheProvider;
+		if (provider && typeof provider === "object") {
+			configuredOptions = provider.options ?? {};
+		}
+	} catch (error) {
+		if (!values.owner || !values.repo) {
+			throw error;
+		}
+	}
+
+	const owner = values.owner ?? configuredOptions.owner;
+	const repo = values.repo ?? configuredOptions.repo;
+	if (!owner || !repo) {
+		throw new Error(
+			"No repository configured. Add buildCacheProvider options to your app config or pass --owner and --repo.",
+		);
+	}
+
+	return { ...configuredOptions, owner, repo };
+}
+
+/**
+ * Validates and returns the `--platform` option
+ *
+ * @param {string | undefined} platform - Raw option value
+ * @returns {"ios" | "android"} - Platform
+ * @throws {Error} - When the platform is missing or unknown
+ */
+function requirePlatform(platform: string | undefined): "ios" | "android" {
+	if (platform !== "ios" && platform !== "android") {
+		throw new Error("--platform must be either ios or android");
+	}
+	return platform;
+}
+
+/**
+ * Parses a non-negative number option
+ *
+ * @param {string} name - Option name used in the error message
+ * @param {string | undefined} value - Raw option value
+ * @returns {number | undefined} - Parsed value or undefined when unset
+ * @throws {Error} - When the value is not a non-negative number
+ */
+function parseCount(
+	name: string,
+	value: string | undefined,
+): number | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	const parsed = Number(value);
+	if (value === "" || !Number.isFinite(parsed) || parsed < 0) {
+		throw new Error(`--${name} must be a non-negative number`);
+	}
+	return parsed;
+}
+
+/**
+ * Applies the `--target` and `--format` flags to the plugin options
+ *
+ * @param {"ios" | "android"} platform - Target platform
+ * @param {GitHubCacheOptions} options - Plugin options from the app config
+ * @param {CliArgs["values"]} values - Parsed command line options
+ * @returns {GitHubCacheOptions} - Plugin options selecting the requested build type
+ * @throws {Error} - When a flag does not fit the platform
+ */
+function withBuildTypeFlags(
+	platform: "ios" | "android",
+	options: GitHubCacheOptions,
+	{ target, format }: CliArgs["values"],
+): GitHubCacheOptions {
+	if (target !== undefined && target !== "simulator" && target !== "device") {
+		throw new Error("--target must be either simulator or device");
+	}
+	if (platform === "android") {
+		if (format !== undefined && format !== "apk" && format !== "aab") {
+			throw new Error("--format must be either apk or aab on Android");
+		}
+		return {
+			...options,
+			androidArtifactFormat: format ?? options.androidArtifactFormat,
+		};
+	}
+	if (format !== undefined && format !== "app" && format !== "ipa") {
+		throw new Error("--format must be either app or ipa on iOS");
+	}
+	return {
+		...options,
+		iosBuildTarget: target ?? options.iosBuildTarget,
+		iosArtifactFormat: format ?? options.iosArtifactFormat,
+	};
+}
+
+/**
+ * Parses the logging flags
+ *
+ * `--log-level` takes precedence over `--quiet` and `--verbose`.
+ *
+ * @param {CliArgs["values"]} values - Parsed command line options
+ * @returns {Pick<GitHubCacheOptions, "logLevel" | "logFormat">} - Logging options
+ * @throws {Error} - When a level or format is unknown
+ */
+function parseLogOptions(
+	values: CliArgs["values"],
+): Pick<GitHubCacheOptions, "logLevel" | "logFormat"> {
+	const level = values["log-level"];
+	if (
+		level !== undefined &&
+		!["debug", "info", "warn", "error", "silent"].includes(level)
+	) {
+		throw new Error(
+			"--log-level must be one of debug, info, warn, error or silent",
+		);
+	}
+	const format = values["log-format"];
+	if (format !== undefined && format !== "text" && format !== "json") {
+		throw new Error("--log-format must be either text or json");
+	}
+	const logLevel =
+		(level as LogLevel | undefined) ??
+		(values.quiet ? "error" : values.verbose ? "debug" : undefined);
+	// Unset flags leave the app config's logging options in effect
+	return {
+		...(logLevel ? { logLevel } : {}),
+		...(format ? { logFormat: format } : {}),
+	};
+}
+
+/**
+ * Formats a byte count for table output
+ */
+function formatSize(bytes: number): string {
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Runs a CLI command
+ *
+ * @param {string[]} argv - Arguments without the node binary and script path
+ * @returns {Promise<number>} - Process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+	const { values, positionals } = parseCliArgs(argv);
+	const [command, argument] = positionals;
+
+	if (values.help || !command) {
+		console.log(USAGE);
+		return values.help ? 0 : 1;
+	}
+
+	const projectRoot = path.resolve(values["project-root"] ?? process.cwd());
+	const logOptions = parseLogOptions(values);
+	logger.configure(logOptions);
+
+	switch (command) {
+		case "list":
+		case "show": {
+			if (command === "show" && !argument) {
+				throw new Error("Usage: expo-github-cache show <fingerprint>");
+			}
+			const options = readPluginOptions(projectRoot, values);
+			const storage = await createStorageBackend(options, { access: "read" });
+			const entries = (await storage.list()).filter(
+				(entry) =>
+					(!argument || entry.key.includes(argument)) &&
+					(!values.platform ||
+						parseTagName(entry.key, options)?.platform === values.platform),
+			);
+
+			if (entries.length === 0) {
+				logger.warn(`No cached builds found on ${storage.name}`);
+				return command === "show" ? 1 : 0;
+			}
+
+			for (const entry of entries) {
+				console.log(
+					`${entry.key}  ${entry.name}  ${formatSize(entry.size)}  ${entry.createdAt ?? ""}`,
+				);
+				if (command === "show" && storage.fetchManifest) {
+					const manifest = await storage.fetchManifest(entry.key, entry.name);
+					for (const line of manifest
+						? formatManifestSummary(manifest)
+						: ["No manifest available"]) {
+						console.log(`  ${line}`);
+					}
+				}
+			}
+			return 0;
+		}
+
+		case "download": {
+			if (!argument) {
+				throw new Error(
+					"Usage: expo-github-cache download <fingerprint> --platform <ios|android>",
+				);
+			}
+			const platform = requirePlatform(values.platform);
+			const appPath = await buildCachePlugin.resolveBuildCache(
+				{
+					projectRoot,
+					platform,
+					fingerprintHash: argument,
+					runOptions: toRunOptions(values),
+				},
+				withBuildTypeFlags(
+					platform,
+					{
+						...readPluginOptions(projectRoot, values),
+						...logOptions,
+						runSummary: false,
+					},
+					values,
+				),
+			);
+			if (!appPath) {
+				return 1;
+			}
+			console.log(appPath);
+			return 0;
+		}
+
+		case "upload": {
+			if (!argument || !values.fingerprint) {
+				throw new Error(
+					"Usage: expo-github-cache upload <path> --fingerprint <hash> --platform <ios|android>",
+				);
+			}
+			const result = await buildCachePlugin.uploadBuildCache(
+				{
+					projectRoot,
+					platform: requirePlatform(values.platform),
+					fingerprintHash: values.fingerprint,
+					runOptions: toRunOptions(values),
+					buildPath: path.resolve(argument),
+				},
+				{
+					...readPluginOptions(projectRoot, values),
+					...logOptions,
+					runSummary: false,
+				},
+			);
+			if (!result) {
+				return 1;
+			}
+			console.log(result);
+			return 0;
+		}
+
+		case "prune": {
+			if (values.remote) {
+				const options = readPluginOptions(projectRoot, values);
+				const storage = await createStorageBackend(options);
+				const pruned = await pruneRemoteCacheAsync(storage, {
+					tagPrefix: options.tagPrefix,
+					tagTemplate: options.tagTemplate,
+					olderThanDays: parseCount(
+						"older-than-days",
+						values["older-than-days"],
+					),
+					keepPerPlatform: parseCount("keep", values.keep),
+					dryRun: values["dry-run"],
+				});
+				logger.success(
+					`${values["dry-run"] ? "Would delete" : "Deleted"} ${pruned.length} cached build(s) from ${storage.name}`,
+				);
+				return 0;
+			}
+
+			let options: Partial<GitHubCacheOptions> = {};
+			try {
+				options = readPluginOptions(projectRoot, values);
+			} catch {
+				// Pruning the local cache does not need a repository
+			}
+			const evicted = await evictLocalCacheAsync(getLocalCachePolicy(options));
+			const removed = await removeStaleTemporaryEntriesAsync();
+			logger.success(
+				`Removed ${evicted.length} cached build(s) and ${removed.length} temporary file(s)`,
+			);
+			return 0;
+		}
+
+		case "clear-local": {
+			const removed = await clearLocalCache();
+			logger.success(
+				`Cleared the local build cache and ${removed.length} temporary file(s)`,
+			);
+			return 0;
+		}
+
+		case "stats": {
+			const stats = (
+				await getCacheStats({ sinceDays: parseCount("days", values.days) })
+			).filter(
+				(platformStats) =>
+					!values.platform || platformStats.platform === values.platform,
+			);
+			if (stats.length === 0) {
+				logger.warn("No cache statistics recorded yet");
+				return 0;
+			}
+			for (const platformStats of stats) {
+				console.log(formatPlatformStats(platformStats));
+			}
+			return 0;
+		}
+
+		default:
+			console.error(`Unknown command "${command}"\n`);
+			console.log(USAGE);
+			return 1;
+	}
+}
+
+if (require.main === module) {
+	runCli(process.argv.slice(2)).then(
+		(exitCode) => {
+			process.exitCode = exitCode;
+		},
+		(error) => {
+			logger.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
+		},
+	);
+}
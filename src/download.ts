@@ -12,87 +12,301 @@ const spawnAsync = spawnAsyncModule.default || spawnAsyncModule;
 import * as path from "node:path";
 import { pipeline } from "node:stream/promises";
 import * as fs from "fs-extra";
-import fetch from "node-fetch";
 import { extract } from "tar";
 import { uuidv7 } from "uuidv7";
-import { getGitHubToken } from "./github-auth";
+import {
+	fetchWithTrace,
+	getRateLimitDelayMs,
+	isGitHubApiUrl,
+	MAX_RATE_LIMIT_WAIT_MS,
+} from "./github-client";
 import { logger } from "./logger";
-import { getTemporaryDirectory } from "./utils";
+import type { ArtifactFormat, DownloadOptions, DownloadStream } from "./types";
+import {
+	computeFileSha256Async,
+	getDownloadDirectory,
+	getTemporaryDirectory,
+} from "./utils";
 
 /**
- * Downloads a file from a URL with progress tracking
+ * Lazily opens the artifact stream for a download, optionally resuming at an offset
+ */
+export type DownloadSource = (
+	options: DownloadOptions,
+) => Promise<DownloadStream>;
+
+/**
+ * Retry behaviour for interrupted downloads
+ */
+export interface DownloadRetryOptions {
+	/** Number of retries after the first attempt */
+	retries?: number;
+	/** Delay before the first retry in milliseconds, doubled on every retry */
+	retryDelayMs?: number;
+}
+
+const DEFAULT_DOWNLOAD_RETRIES = 3;
+const DEFAULT_DOWNLOAD_RETRY_DELAY_MS = 1000;
+
+/** Log labels of the formats that are downloaded without extraction */
+const FILE_FORMAT_LABELS: Record<Exclude<ArtifactFormat, "app">, string> = {
+	ipa: "iOS IPA",
+	apk: "Android APK",
+	aab: "Android App Bundle",
+};
+
+/**
+ * Opens a streaming HTTP download for a URL
+ *
+ * GitHub API asset URLs are requested with `application/octet-stream` so the
+ * binary is returned instead of the asset metadata. When an offset is given a
+ * `Range` request is made; servers answering with the full file are handled
+ * by reporting the stream as not resumed, and a range starting elsewhere than
+ * requested is discarded in favour of the full file.
  *
  * @param {string} url - URL of the file to download
- * @param {string} outputPath - Local path to save the downloaded file
- * @returns {Promise<void>}
+ * @param {string | null} token - Optional GitHub token used to authorize the request
+ * @param {Object} [options] - Download options
+ * @param {number} [options.offset] - Offset to resume the download from
+ * @param {string} [options.apiUrl] - REST API base URL the token belongs to, defaults to `GITHUB_API_URL` or github.com
+ * @returns {Promise<DownloadStream>} - Response body and its content length
  */
-async function downloadFileAsync(
+export async function openUrlDownloadStreamAsync(
 	url: string,
-	outputPath: string,
-): Promise<void> {
-	try {
-		logger.info(`Downloading from URL: ${url}`);
+	token: string | null,
+	{ offset = 0, apiUrl }: DownloadOptions & { apiUrl?: string } = {},
+): Promise<DownloadStream> {
+	logger.info(
+		offset > 0
+			? `Resuming download at ${offset} bytes from URL: ${url}`
+			: `Downloading from URL: ${url}`,
+	);
 
-		let isGitHubApiUrl = false;
-		try {
-			const parsedUrl = new URL(url);
-			isGitHubApiUrl = parsedUrl.hostname === "api.github.com";
-		} catch {
-			// Invalid URL format, treat as non-GitHub
-			isGitHubApiUrl = false;
-		}
+	const headers: Record<string, string> = {
+		Accept: "application/octet-stream",
+	};
 
-		const headers: Record<string, string> = {
-			Accept: "application/octet-stream",
-		};
+	if (token) {
+		headers.Authorization = isGitHubApiUrl(url, apiUrl)
+			? `token ${token}`
+			: `Bearer ${token}`;
+	}
 
-		const githubToken = await getGitHubToken();
-		if (githubToken) {
-			headers.Authorization = isGitHubApiUrl
-				? `token ${githubToken}`
-				: `Bearer ${githubToken}`;
-		}
+	if (offset > 0) {
+		headers.Range = `bytes=${offset}-`;
+	}
 
-		const response = await fetch(url, { headers });
+	const controller = new AbortController();
+	const response = await fetchWithTrace(url, {
+		headers,
+		signal: controller.signal,
+	});
 
-		if (!response.ok || !response.body) {
-			throw new Error(
+	if (!response.ok || !response.body) {
+		throw Object.assign(
+			new Error(
 				`Failed to download file from ${url}, because ${response.status} ${response.statusText}`,
+			),
+			{
+				status: response.status,
+				response: { headers: Object.fromEntries(response.headers) },
+			},
+		);
+	}
+
+	if (offset > 0 && response.status === 206) {
+		const rangeStart = /^bytes (\d+)-/.exec(
+			response.headers.get("content-range") ?? "",
+		)?.[1];
+		if (Number(rangeStart) !== offset) {
+			controller.abort();
+			logger.warn(
+				`Server resumed the download at ${rangeStart ?? "an unknown offset"} instead of ${offset} bytes, starting over`,
 			);
+			return openUrlDownloadStreamAsync(url, token, { apiUrl });
 		}
+	}
 
-		const contentLength = Number.parseInt(
-			response.headers.get("content-length") || "0",
-			10,
-		);
+	return {
+		body: response.body,
+		size: Number.parseInt(response.headers.get("content-length") || "0", 10),
+		resumed: offset > 0 && response.status === 206,
+	};
+}
+
+/**
+ * Checks whether a failed download attempt is worth retrying
+ *
+ * HTTP errors other than timeouts, rate limits, server errors and ranges
+ * beyond the end of the file are final, everything else (connection resets,
+ * premature closes, ...) is transient.
+ *
+ * @param {unknown} error - Error thrown by the download attempt
+ * @returns {boolean} - True if the download should be retried
+ */
+function isTransientDownloadError(error: unknown): boolean {
+	const status = (error as { status?: unknown } | null)?.status;
+	if (typeof status !== "number") {
+		return true;
+	}
+	return status === 408 || status === 416 || status === 429 || status >= 500;
+}
 
-		logger.startSpinner("Downloading file");
+/**
+ * Downloads an artifact to a local file with progress tracking
+ *
+ * Data is written to `<outputPath>.partial` and only renamed once complete.
+ * Interrupted downloads are retried with exponential backoff and resumed from
+ * the bytes already on disk when the source supports it. The partial file is
+ * kept when all retries fail, so the next run resumes it as well.
+ *
+ * @param {DownloadSource} source - Opens the artifact stream to download
+ * @param {string} outputPath - Local path to save the downloaded file
+ * @param {DownloadRetryOptions} [retryOptions] - Retry behaviour
+ * @returns {Promise<void>}
+ */
+export async function downloadFileAsync(
+	source: DownloadSource,
+	outputPath: string,
+	{
+		retries = DEFAULT_DOWNLOAD_RETRIES,
+		retryDelayMs = DEFAULT_DOWNLOAD_RETRY_DELAY_MS,
+	}: DownloadRetryOptions = {},
+): Promise<void> {
+	const partialPath = `${outputPath}.partial`;
+	await fs.ensureDir(path.dirname(partialPath));
 
-		if (contentLength > 0) {
-			let receivedBytes = 0;
-			const downloadStream = response.body;
+	for (let attempt = 0; ; attempt++) {
+		try {
+			const offset = (await fs.pathExists(partialPath))
+				? (await fs.stat(partialPath)).size
+				: 0;
+			const { body, size, resumed } = await source({ offset });
+			const startBytes = offset > 0 && resumed ? offset : 0;
+			const totalBytes = size > 0 ? startBytes + size : 0;
+
+			logger.startSpinner(
+				startBytes > 0 ? "Resuming download" : "Downloading file",
+			);
 
-			downloadStream.on("data", (chunk) => {
-				receivedBytes += chunk.length;
-				const downloadedMB = Math.floor(receivedBytes / 1024 / 1024);
-				const totalMB = Math.floor(contentLength / 1024 / 1024);
-				logger.updateSpinner(`Downloading ${downloadedMB}MB / ${totalMB}MB`);
-			});
+			if (totalBytes > 0) {
+				let receivedBytes = startBytes;
 
-			await pipeline(downloadStream, fs.createWriteStream(outputPath));
-		} else {
-			await pipeline(response.body, fs.createWriteStream(outputPath));
-		}
+				body.on("data", (chunk) => {
+					receivedBytes += chunk.length;
+					const downloadedMB = Math.floor(receivedBytes / 1024 / 1024);
+					const totalMB = Math.floor(totalBytes / 1024 / 1024);
+					logger.updateSpinner(`Downloading ${downloadedMB}MB / ${totalMB}MB`);
+				});
+			}
 
-		logger.succeedSpinner("Download complete");
-	} catch (error: any) {
-		if (await fs.pathExists(outputPath)) {
-			await fs.remove(outputPath);
+			await pipeline(
+				body,
+				fs.createWriteStream(partialPath, {
+					flags: startBytes > 0 ? "a" : "w",
+				}),
+			);
+
+			const { size: writtenBytes } = await fs.stat(partialPath);
+			if (totalBytes > 0 && writtenBytes > totalBytes) {
+				// The partial file held more than the rest of the artifact, start over
+				await fs.remove(partialPath);
+				throw new Error(
+					`Received ${writtenBytes} bytes, more than the ${totalBytes} expected`,
+				);
+			}
+			if (totalBytes > 0 && writtenBytes < totalBytes) {
+				throw new Error(
+					`Connection closed after ${writtenBytes} of ${totalBytes} bytes`,
+				);
+			}
+
+			await fs.move(partialPath, outputPath, { overwrite: true });
+			logger.succeedSpinner("Download complete");
+			return;
+		} catch (error) {
+			// The partial file is at least as large as the artifact, start over
+			if ((error as { status?: unknown } | null)?.status === 416) {
+				await fs.remove(partialPath);
+			}
+
+			const rateLimitDelayMs = getRateLimitDelayMs(error);
+			if (
+				attempt >= retries ||
+				!isTransientDownloadError(error) ||
+				(rateLimitDelayMs ?? 0) > MAX_RATE_LIMIT_WAIT_MS
+			) {
+				logger.failSpinner("Download failed");
+				throw error;
+			}
+
+			// Rate limited downloads wait as long as the server asks
+			const delayMs = getRateLimitDelayMs(error) ?? retryDelayMs * 2 ** attempt;
+			logger.failSpinner(
+				`Download interrupted: ${error instanceof Error ? error.message : String(error)}`,
+				"warn",
+			);
+			logger.warn(
+				`Retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 2} of ${retries + 1})`,
+			);
+			await new Promise((resolve) => setTimeout(resolve, delayMs));
 		}
-		throw error;
 	}
 }
 
+/**
+ * Verifies a downloaded file against the checksum recorded at upload time
+ *
+ * The file is deleted when the checksum does not match so a truncated or
+ * corrupted download can never end up in the local build cache, nor be
+ * resumed by the next run.
+ *
+ * @param {string} filePath - Downloaded file
+ * @param {string | null} [expectedSha256] - Hex encoded SHA-256 digest recorded at upload time
+ * @returns {Promise<void>}
+ * @throws {Error} - When the digest of the file does not match
+ */
+export async function verifyDownloadIntegrityAsync(
+	filePath: string,
+	expectedSha256?: string | null,
+): Promise<void> {
+	if (!expectedSha256) {
+		logger.warn("No checksum available for this build, skipping verification");
+		return;
+	}
+
+	logger.startSpinner("Verifying download integrity");
+	const actualSha256 = await computeFileSha256Async(filePath);
+	if (actualSha256 !== expectedSha256.toLowerCase()) {
+		logger.failSpinner("Integrity check failed");
+		await fs.remove(filePath);
+		throw new Error(
+			`Checksum mismatch for downloaded build (expected SHA-256 ${expectedSha256}, got ${actualSha256}). The download was incomplete or corrupted and has been deleted.`,
+		);
+	}
+	logger.succeedSpinner("Download integrity verified");
+}
+
+/**
+ * Returns the path an artifact is downloaded to
+ *
+ * Artifacts with a known checksum always use the same path, so the next run
+ * resumes an interrupted download instead of starting over.
+ *
+ * @param {string | null} [expectedSha256] - Checksum recorded at upload time
+ * @param {string} extension - File extension of the artifact
+ * @returns {string} - Download path
+ */
+function getDownloadPath(
+	expectedSha256: string | null | undefined,
+	extension: string,
+): string {
+	return path.join(
+		getDownloadDirectory(),
+		`${expectedSha256?.toLowerCase() ?? uuidv7()}.${extension}`,
+	);
+}
+
 async function maybeCacheAppAsync(
 	appPath: string,
 	cachedAppPath?: string,
@@ -108,44 +322,78 @@ async function maybeCacheAppAsync(
 }
 
 /**
- * Downloads and extracts application artifacts from a remote URL
+ * Downloads and extracts application artifacts from a storage backend
  *
- * @param {string} url - URL of the application artifact to download
+ * @param {DownloadSource} source - Opens the application artifact stream
  * @param {"ios" | "android"} platform - Target platform of the artifact
- * @param {string} [cachedAppPath] - Optional path to cache the artifact
+ * @param {Object} [options] - Download options
+ * @param {string} [options.cachedAppPath] - Optional path to cache the artifact
+ * @param {ArtifactFormat} [options.format] - Artifact format, .app tarballs are extracted (default "app" on iOS, "apk" on Android)
+ * @param {string | null} [options.expectedSha256] - Checksum the downloaded artifact must match
+ * @param {number} [options.retries] - Number of retries for interrupted downloads
+ * @param {number} [options.retryDelayMs] - Delay before the first retry in milliseconds
  * @returns {Promise<string>} - Path to the downloaded/extracted application
  */
 export async function downloadAndMaybeExtractAppAsync(
-	url: string,
+	source: DownloadSource,
 	platform: "ios" | "android",
-	cachedAppPath?: string,
+	{
+		cachedAppPath,
+		format = platform === "ios" ? "app" : "apk",
+		expectedSha256,
+		...retryOptions
+	}: DownloadRetryOptions & {
+		cachedAppPath?: string;
+		format?: ArtifactFormat;
+		expectedSha256?: string | null;
+	} = {},
 ): Promise<string> {
 	const outputDir = path.join(getTemporaryDirectory(), uuidv7());
 	await fs.promises.mkdir(outputDir, { recursive: true });
+	const downloadPath = getDownloadPath(
+		expectedSha256,
+		format === "app" ? "tar.gz" : format,
+	);
 
-	if (platform === "android") {
-		const apkFilePath = path.join(outputDir, `${uuidv7()}.apk`);
-		logger.info("Downloading Android APK");
-		await downloadFileAsync(url, apkFilePath);
-		return await maybeCacheAppAsync(apkFilePath, cachedAppPath);
-	}
-	const tmpArchivePathDir = path.join(getTemporaryDirectory(), uuidv7());
-	await fs.mkdir(tmpArchivePathDir, { recursive: true });
-
-	const tmpArchivePath = path.join(tmpArchivePathDir, `${uuidv7()}.tar.gz`);
-	logger.info("Downloading iOS app archive");
-	await downloadFileAsync(url, tmpArchivePath);
-	logger.success("Successfully downloaded app archive");
+	try {
+		// .ipa, .apk and .aab files are installed as they are
+		if (format !== "app") {
+			logger.info(`Downloading ${FILE_FORMAT_LABELS[format]}`);
+			await downloadFileAsync(source, downloadPath, retryOptions);
+			await verifyDownloadIntegrityAsync(downloadPath, expectedSha256);
+			const appFilePath = path.join(outputDir, path.basename(downloadPath));
+			await fs.move(downloadPath, appFilePath);
+			return await maybeCacheAppAsync(appFilePath, cachedAppPath);
+		}
 
-	logger.startSpinner("Extracting app archive");
-	await tarExtractAsync(tmpArchivePath, outputDir);
-	logger.succeedSpinner("Archive extracted successfully");
+		try {
+			logger.info("Downloading iOS app archive");
+			await downloadFileAsync(source, downloadPath, retryOptions);
+			logger.success("Successfully downloaded app archive");
+			await verifyDownloadIntegrityAsync(downloadPath, expectedSha256);
+
+			logger.startSpinner("Extracting app archive");
+			await tarExtractAsync(downloadPath, outputDir);
+			logger.succeedSpinner("Archive extracted successfully");
+		} finally {
+			await fs.remove(downloadPath);
+		}
 
-	const appPath = await getAppPathAsync(
-		outputDir,
-		platform === "ios" ? "app" : "apk",
-	);
-	return await maybeCacheAppAsync(appPath, cachedAppPath);
+		const appPath = await getAppPathAsync(outputDir, "app");
+		return await maybeCacheAppAsync(appPath, cachedAppPath);
+	} catch (error) {
+		await fs.remove(outputDir);
+		// Without a checksum no later run could tell the partial download belongs to the same build
+		if (!expectedSha256) {
+			await fs.remove(`${downloadPath}.partial`);
+		}
+		throw error;
+	} finally {
+		// Without a cache path the returned app still lives in the output directory
+		if (cachedAppPath) {
+			await fs.remove(outputDir);
+		}
+	}
 }
 
 /**
@@ -0,0 +1,200 @@
+/**
+ * GitHub token preflight
+ *
+ * @fileOverview Verifies that a token can access the cache repository and explains auth failures
+ * @module github-access
+ */
+
+import { createHash } from "node:crypto";
+import {
+	createOctokit,
+	getErrorHeader,
+	getRateLimitDelayMs,
+} from "./github-client";
+
+/**
+ * Repository and access level a token is checked for
+ */
+export interface RepositoryAccessParams {
+	/** GitHub token to check */
+	token: string;
+	/** Repository owner or organization name */
+	owner: string;
+	/** Repository name */
+	repo: string;
+	/** REST API base URL, defaults to `GITHUB_API_URL` or github.com */
+	apiUrl?: string;
+	/** "read" for lookups and downloads, "write" for uploads and deletes */
+	access: "read" | "write";
+	/** Repository permission the storage backend relies on, defaults to "contents" */
+	permission?: "contents" | "actions";
+}
+
+/** Preflight results of the current run by token, repository and access level */
+const preflightCache = new Map<string, Promise<void>>();
+
+/**
+ * Returns the guidance for a token that lacks permission to the repository
+ *
+ * @param {Object} params - Repository and access level
+ * @param {string} [acceptedPermissions] - Permissions GitHub reported as required
+ * @returns {string} - Explanation and fix
+ */
+function describeMissingPermission(
+	{
+		owner,
+		repo,
+		access,
+		permission = "contents",
+	}: Omit<RepositoryAccessParams, "token" | "apiUrl">,
+	acceptedPermissions?: string,
+): string {
+	const title = permission === "actions" ? "Actions" : "Contents";
+	const level = access === "write" ? "Read and write" : "Read-only";
+	return `The GitHub token cannot ${access} ${owner}/${repo}. Fine-grained tokens need the "${title}: ${level}" repository permission, classic tokens the "repo" scope and GitHub Apps "${permission}: ${access}"${acceptedPermissions ? ` (GitHub expects ${acceptedPermissions})` : ""}.`;
+}
+
+/**
+ * Explains a 401, 403 or 404 response from GitHub
+ *
+ * Rate limit responses, including secondary rate limits, are left to the
+ * caller, as they are not caused by the token.
+ *
+ * @param {unknown} error - Error thrown by an API call or download
+ * @param {Object} params - Repository and access level of the failed call
+ * @returns {string | null} - Guidance or null when the error is not an auth failure
+ */
+export function describeGitHubError(
+	error: unknown,
+	params: Omit<RepositoryAccessParams, "token" | "apiUrl">,
+): string | null {
+	const status = (error as { status?: number } | undefined)?.status;
+	const { owner, repo } = params;
+
+	switch (status) {
+		case 401:
+			return "GitHub rejected the token (401 Bad credentials). It is invalid, expired or revoked; set a new GITHUB_TOKEN or GH_TOKEN, or run `gh auth login` again.";
+		case 403: {
+			const sso = getErrorHeader(error, "x-github-sso");
+			if (sso) {
+				const url = /url=(\S+)/.exec(sso)?.[1];
+				return `The GitHub token is not authorized for SAML single sign-on in the ${owner} organization. Authorize it ${url ? `at ${url}` : "in your token settings"} and try again.`;
+			}
+			if (
+				getErrorHeader(error, "x-ratelimit-remaining") === "0" ||
+				getRateLimitDelayMs(error) !== null
+			) {
+				return null;
+			}
+			return describeMissingPermission(
+				params,
+				getErrorHeader(error, "x-accepted-github-permissions"),
+			);
+		}
+		case 404:
+			return `Repository ${owner}/${repo} was not found. Check the owner and repo options; private repositories also look missing when the token cannot see them, so make sure a fine-grained token lists the repository or the GitHub App is installed on it.`;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Checks that a token is valid and can read, or write to, the cache repository
+ *
+ * Classic tokens are checked for the `repo` scope (or `public_repo` for
+ * public repositories) and user tokens for push access before anything is
+ * uploaded. The result is cached for the rest of the run.
+ *
+ * @param {RepositoryAccessParams} params - Token, repository and access level to check
+ * @returns {Promise<void>}
+ * @throws {Error} - With guidance when the token cannot access the repository
+ */
+export function verifyRepositoryAccessAsync(
+	params: RepositoryAccessParams,
+): Promise<void> {
+	const { token, owner, repo, apiUrl, access, permission } = params;
+	const cacheKey = [
+		createHash("sha256").update(token).digest("hex"),
+		apiUrl,
+		owner,
+		repo,
+		access,
+		permission,
+	].join("|");
+
+	let result = preflightCache.get(cacheKey);
+	if (!result) {
+		result = checkRepositoryAccessAsync(params).catch((error) => {
+			// Network failures say nothing about the token, check again next time
+			if (error?.status === undefined) {
+				preflightCache.delete(cacheKey);
+			}
+			throw error;
+		});
+		preflightCache.set(cacheKey, result);
+	}
+	return result;
+}
+
+/**
+ * Requests the repository with the token and checks the granted access
+ *
+ * @param {RepositoryAccessParams} params - Token, repository and access level to check
+ * @returns {Promise<void>}
+ * @throws {Error} - With guidance when the token cannot access the repository
+ */
+async function checkRepositoryAccessAsync({
+	token,
+	owner,
+	repo,
+	apiUrl,
+	access,
+	permission,
+}: RepositoryAccessParams): Promise<void> {
+	const octokit = createOctokit({ token, apiUrl });
+
+	let response: Awaited<ReturnType<typeof octokit.rest.repos.get>>;
+	try {
+		response = await octokit.rest.repos.get({ owner, repo });
+	} catch (error: any) {
+		const guidance = describeGitHubError(error, {
+			owner,
+			repo,
+			access,
+			permission,
+		});
+		if (!guidance) {
+			throw error;
+		}
+		throw Object.assign(new Error(guidance), { status: error.status });
+	}
+
+	if (access === "read") {
+		return;
+	}
+
+	// Only classic tokens report their scopes
+	const scopes = response.headers["x-oauth-scopes"];
+	if (typeof scopes === "string") {
+		const granted = scopes.split(",").map((scope) => scope.trim());
+		if (
+			!granted.includes("repo") &&
+			!(granted.includes("public_repo") && !response.data.private)
+		) {
+			throw Object.assign(
+				new Error(
+					`The classic GitHub token is missing the "repo" scope needed to upload builds to ${owner}/${repo} (granted: ${scopes || "none"}).`,
+				),
+				{ status: 403 },
+			);
+		}
+	}
+
+	// Installation tokens do not report permissions
+	if (response.data.permissions?.push === false) {
+		throw Object.assign(
+			new Error(describeMissingPermission({ owner, repo, access, permission })),
+			{ status: 403 },
+		);
+	}
+}
@@ -0,0 +1,176 @@
+/**
+ * GitHub App installation authentication
+ *
+ * @fileOverview Creates and caches installation tokens for a GitHub App
+ * @module github-app-auth
+ */
+
+import { createSign } from "node:crypto";
+import * as fs from "fs-extra";
+import { fetchWithTrace, getGitHubApiUrl } from "./github-client";
+import type { GitHubCacheOptions } from "./types";
+
+/** Installation tokens are renewed when they expire within this time */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Options selecting the GitHub App to authenticate as
+ */
+export type GitHubAppAuthOptions = Pick<
+	GitHubCacheOptions,
+	"apiUrl" | "appId" | "appPrivateKeyPath" | "appInstallationId"
+>;
+
+/**
+ * Credentials of a GitHub App installation
+ */
+export interface GitHubAppCredentials {
+	/** App ID or client ID of the GitHub App */
+	appId: string;
+	/** PEM encoded private key of the GitHub App */
+	privateKey: string;
+	/** ID of the installation on the repository owner */
+	installationId: string;
+	/** REST API base URL */
+	apiUrl: string;
+}
+
+/** Installation tokens by app, installation and API URL */
+const tokenCache = new Map<string, { token: string; expiresAt: number }>();
+
+/**
+ * Reads the GitHub App credentials from the plugin options and environment
+ *
+ * Options take precedence over `GITHUB_APP_ID`, `GITHUB_APP_PRIVATE_KEY_PATH`
+ * (or the key itself in `GITHUB_APP_PRIVATE_KEY`) and `GITHUB_APP_INSTALLATION_ID`.
+ *
+ * @param {GitHubAppAuthOptions} [options] - Plugin options
+ * @param {NodeJS.ProcessEnv} [env] - Environment to read
+ * @returns {Promise<GitHubAppCredentials | null>} - Credentials or null when no app is configured
+ * @throws {Error} - When the app is only partially configured or its key cannot be read
+ */
+export async function getGitHubAppCredentials(
+	options: GitHubAppAuthOptions = {},
+	env: NodeJS.ProcessEnv = process.env,
+): Promise<GitHubAppCredentials | null> {
+	const appId = options.appId ?? env.GITHUB_APP_ID;
+	const installationId =
+		options.appInstallationId ?? env.GITHUB_APP_INSTALLATION_ID;
+	const privateKeyPath =
+		options.appPrivateKeyPath ?? env.GITHUB_APP_PRIVATE_KEY_PATH;
+	const inlinePrivateKey = privateKeyPath
+		? undefined
+		: env.GITHUB_APP_PRIVATE_KEY;
+
+	if (!appId && !installationId && !privateKeyPath && !inlinePrivateKey) {
+		return null;
+	}
+	if (!appId || !installationId || (!privateKeyPath && !inlinePrivateKey)) {
+		throw new Error(
+			"GitHub App authentication needs an app ID, a private key and an installation ID (appId, appPrivateKeyPath and appInstallationId, or GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY_PATH and GITHUB_APP_INSTALLATION_ID)",
+		);
+	}
+
+	let privateKey: string;
+	try {
+		privateKey = privateKeyPath
+			? await fs.readFile(privateKeyPath, "utf8")
+			: // Keys stored in single line secrets often have escaped newlines
+				(inlinePrivateKey as string).replace(/\\n/g, "\n");
+	} catch (error) {
+		throw new Error(
+			`Cannot read the GitHub App private key from ${privateKeyPath}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	return {
+		appId: String(appId),
+		privateKey,
+		installationId: String(installationId),
+		apiUrl: getGitHubApiUrl(options.apiUrl),
+	};
+}
+
+/**
+ * Encodes a JSON value as a base64url JWT segment
+ */
+function toJwtSegment(value: object): string {
+	return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * Creates the JWT a GitHub App authenticates with
+ *
+ * The token is backdated by a minute to tolerate clock drift and expires
+ * after nine minutes, below GitHub's ten minute limit.
+ *
+ * @param {Pick<GitHubAppCredentials, "appId" | "privateKey">} credentials - App ID and private key
+ * @param {number} [now] - Current time in milliseconds
+ * @returns {string} - RS256 signed JWT
+ */
+export function createGitHubAppJwt(
+	{ appId, privateKey }: Pick<GitHubAppCredentials, "appId" | "privateKey">,
+	now = Date.now(),
+): string {
+	const issuedAt = Math.floor(now / 1000) - 60;
+	const unsigned = `${toJwtSegment({ alg: "RS256", typ: "JWT" })}.${toJwtSegment(
+		{
+			iat: issuedAt,
+			exp: issuedAt + 10 * 60,
+			// Numeric app IDs are sent as numbers, client IDs as strings
+			iss: /^\d+$/.test(appId) ? Number(appId) : appId,
+		},
+	)}`;
+	const signature = createSign("RSA-SHA256")
+		.update(unsigned)
+		.sign(privateKey)
+		.toString("base64url");
+	return `${unsigned}.${signature}`;
+}
+
+/**
+ * Returns an installation token of a GitHub App
+ *
+ * Tokens are cached for the lifetime of the process and renewed five minutes
+ * before they expire, so long builds never continue with an expired token.
+ *
+ * @param {GitHubAppCredentials} credentials - App and installation to authenticate as
+ * @returns {Promise<string>} - Installation access token
+ * @throws {Error} - When GitHub rejects the app credentials
+ */
+export async function getInstallationTokenAsync(
+	credentials: GitHubAppCredentials,
+): Promise<string> {
+	const { appId, installationId, apiUrl } = credentials;
+	const cacheKey = `${apiUrl}|${appId}|${installationId}`;
+	const cached = tokenCache.get(cacheKey);
+	if (cached && cached.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+		return cached.token;
+	}
+
+	const response = await fetchWithTrace(
+		`${apiUrl}/app/installations/${installationId}/access_tokens`,
+		{
+			method: "POST",
+			headers: {
+				Accept: "application/vnd.github+json",
+				Authorization: `Bearer ${createGitHubAppJwt(credentials)}`,
+			},
+		},
+	);
+	if (!response.ok) {
+		throw Object.assign(
+			new Error(
+				`Creating a GitHub App installation token failed: ${response.status} ${await response.text()}`,
+			),
+			{ status: response.status },
+		);
+	}
+
+	const { token, expires_at } = (await response.json()) as {
+		token: string;
+		expires_at: string;
+	};
+	tokenCache.set(cacheKey, { token, expiresAt: Date.parse(expires_at) });
+	return token;
+}
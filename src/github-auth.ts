@@ -1,11 +1,17 @@
 /**
  * GitHub authentication token resolution
  *
- * @fileOverview Resolves a GitHub token from environment variables or the gh CLI
+ * @fileOverview Resolves a GitHub token from a GitHub App, environment variables or the gh CLI
  * @module github-auth
  */
 
 import * as spawnAsyncModule from "@expo/spawn-async";
+import {
+	type GitHubAppAuthOptions,
+	getGitHubAppCredentials,
+	getInstallationTokenAsync,
+} from "./github-app-auth";
+import { getGitHubHostname } from "./github-client";
 
 const spawnAsync = spawnAsyncModule.default || spawnAsyncModule;
 
@@ -27,10 +33,17 @@ export function resolveGitHubToken({
 
 /**
  * Reads a GitHub token from the authenticated gh CLI session.
+ * Sessions of GitHub Enterprise Server hosts are selected by host name.
  */
-export async function getGitHubTokenFromGhCli(): Promise<string | null> {
+export async function getGitHubTokenFromGhCli(
+	hostname = "github.com",
+): Promise<string | null> {
+	const args = ["auth", "token"];
+	if (hostname !== "github.com") {
+		args.push("--hostname", hostname);
+	}
 	try {
-		const { stdout } = await spawnAsync("gh", ["auth", "token"], {
+		const { stdout } = await spawnAsync("gh", args, {
 			stdio: ["ignore", "pipe", "pipe"],
 		});
 		const token = stdout.toString().trim();
@@ -43,9 +56,18 @@ export async function getGitHubTokenFromGhCli(): Promise<string | null> {
 /**
  * Resolves a GitHub token for API and download requests.
  *
- * Checks, in order: GITHUB_TOKEN, GH_TOKEN, then `gh auth token`.
+ * Checks, in order: a GitHub App installation token when an app is
+ * configured, GITHUB_TOKEN, GH_TOKEN, then `gh auth token` for the host of
+ * the configured API URL.
  */
-export async function getGitHubToken(): Promise<string | null> {
+export async function getGitHubToken(
+	options: GitHubAppAuthOptions = {},
+): Promise<string | null> {
+	const appCredentials = await getGitHubAppCredentials(options);
+	if (appCredentials) {
+		return getInstallationTokenAsync(appCredentials);
+	}
+
 	const envToken = resolveGitHubToken({
 		githubToken: process.env.GITHUB_TOKEN,
 		ghToken: process.env.GH_TOKEN,
@@ -55,5 +77,5 @@ export async function getGitHubToken(): Promise<string | null> {
 		return envToken;
 	}
 
-	return getGitHubTokenFromGhCli();
+	return getGitHubTokenFromGhCli(getGitHubHostname(options.apiUrl));
 }
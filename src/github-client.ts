@@ -0,0 +1,324 @@
+/**
+ * GitHub API client setup
+ *
+ * @fileOverview Resolves the GitHub REST API endpoint, creates API clients for it and traces HTTP requests
+ * @module github-client
+ */
+
+import { Octokit } from "@octokit/rest";
+import fetch, { type RequestInit, type Response } from "node-fetch";
+import { logger } from "./logger";
+
+/** REST API endpoint of github.com */
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+
+/** Number of times a rate limited or failed API call is retried */
+const DEFAULT_API_RETRIES = 3;
+/** Delay before the first retry of a failed API call, doubled on every retry */
+const DEFAULT_API_RETRY_DELAY_MS = 1000;
+/** Rate limits resetting later than this fail the call instead of waiting */
+export const MAX_RATE_LIMIT_WAIT_MS = 15 * 60 * 1000;
+/** GitHub asks to wait at least a minute after a secondary rate limit without a retry-after header */
+const SECONDARY_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+/** HTTP methods that can be repeated without side effects */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * Retry behaviour of API clients
+ */
+export interface ApiRetryOptions {
+	/** Number of retries after the first attempt (default 3) */
+	retries?: number;
+	/** Delay before the first retry of a failed call in milliseconds (default 1000) */
+	retryDelayMs?: number;
+}
+
+/**
+ * Resolves the REST API base URL
+ *
+ * The `apiUrl` option takes precedence over `GITHUB_API_URL`, which GitHub
+ * Actions sets on every runner, including those of GitHub Enterprise Server.
+ *
+ * @param {string} [apiUrl] - Configured API base URL, e.g. "https://github.example.com/api/v3"
+ * @returns {string} - API base URL without a trailing slash
+ */
+export function getGitHubApiUrl(apiUrl?: string): string {
+	return (apiUrl || process.env.GITHUB_API_URL || DEFAULT_GITHUB_API_URL)
+		.trim()
+		.replace(/\/+$/, "");
+}
+
+/**
+ * Returns the host name the gh CLI knows the GitHub instance by
+ *
+ * @param {string} [apiUrl] - Configured API base URL
+ * @returns {string} - "github.com" or the host of a GitHub Enterprise Server
+ */
+export function getGitHubHostname(apiUrl?: string): string {
+	const { hostname } = new URL(getGitHubApiUrl(apiUrl));
+	return hostname === "api.github.com" ? "github.com" : hostname;
+}
+
+/**
+ * Checks whether a URL points at the REST API
+ *
+ * @param {string} url - URL of a request
+ * @param {string} [apiUrl] - Configured API base URL
+ * @returns {boolean} - True for URLs below the API base URL
+ */
+export function isGitHubApiUrl(url: string, apiUrl?: string): boolean {
+	try {
+		const base = new URL(getGitHubApiUrl(apiUrl));
+		const parsedUrl = new URL(url);
+		return (
+			parsedUrl.origin === base.origin &&
+			`${parsedUrl.pathname}/`.startsWith(
+				`${base.pathname.replace(/\/$/, "")}/`,
+			)
+		);
+	} catch {
+		// Invalid URL format, treat as non-GitHub
+		return false;
+	}
+}
+
+/**
+ * Reads a response header from an Octokit or download error
+ */
+export function getErrorHeader(
+	error: unknown,
+	name: string,
+): string | undefined {
+	const value = (
+		error as { response?: { headers?: Record<string, unknown> } } | undefined
+	)?.response?.headers?.[name];
+	return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Returns how long to wait before retrying a rate limited request
+ *
+ * `retry-after` is honored first, then `x-ratelimit-reset` once the quota is
+ * used up. Secondary rate limits without either header wait one minute.
+ *
+ * @param {unknown} error - Error thrown by the request
+ * @param {number} [now] - Current time in milliseconds
+ * @returns {number | null} - Delay in milliseconds or null when the request was not rate limited
+ */
+export function getRateLimitDelayMs(
+	error: unknown,
+	now = Date.now(),
+): number | null {
+	const status = (error as { status?: number } | undefined)?.status;
+	if (status !== 403 && status !== 429) {
+		return null;
+	}
+
+	const retryAfter = getErrorHeader(error, "retry-after");
+	if (retryAfter !== undefined && Number(retryAfter) >= 0) {
+		return Number(retryAfter) * 1000;
+	}
+	if (getErrorHeader(error, "x-ratelimit-remaining") === "0") {
+		const reset = Number(getErrorHeader(error, "x-ratelimit-reset"));
+		if (reset > 0) {
+			// One more second so the request does not arrive just before the reset
+			return Math.max(reset * 1000 - now, 0) + 1000;
+		}
+	}
+	const message = error instanceof Error ? error.message : String(error);
+	if (status === 429 || /secondary rate limit/i.test(message)) {
+		return SECONDARY_RATE_LIMIT_WAIT_MS;
+	}
+	return null;
+}
+
+/**
+ * Returns the jittered exponential backoff delay of a retry
+ *
+ * @param {number} attempt - Number of the failed attempt, starting at 0
+ * @param {number} baseDelayMs - Delay before the first retry
+ * @param {() => number} [random] - Random number source between 0 and 1
+ * @returns {number} - Delay in milliseconds, between half and the full exponential delay
+ */
+export function getBackoffDelayMs(
+	attempt: number,
+	baseDelayMs: number,
+	random: () => number = Math.random,
+): number {
+	return Math.round(baseDelayMs * 2 ** attempt * (0.5 + random() / 2));
+}
+
+/**
+ * Checks whether an API call failed for reasons a retry may fix
+ *
+ * @param {unknown} error - Error thrown by the request
+ * @returns {boolean} - True for network errors, timeouts and server errors
+ */
+function isTransientApiError(error: unknown): boolean {
+	const status = (error as { status?: number } | undefined)?.status;
+	// Octokit reports network failures with status 500 and no response
+	return (
+		status === undefined ||
+		status === 408 ||
+		status >= 500 ||
+		(error as { response?: unknown } | undefined)?.response === undefined
+	);
+}
+
+/**
+ * Logs the remaining API quota at the debug level
+ */
+function logRateLimitQuota(headers: Record<string, unknown> | undefined): void {
+	const remaining = headers?.["x-ratelimit-remaining"];
+	if (remaining === undefined) {
+		return;
+	}
+	const reset = Number(headers?.["x-ratelimit-reset"]);
+	logger.debug(
+		`GitHub API quota: ${remaining}/${headers?.["x-ratelimit-limit"]} requests remaining${reset > 0 ? `, resets at ${new Date(reset * 1000).toISOString()}` : ""}`,
+	);
+}
+
+/**
+ * Logs a finished HTTP request at the debug level
+ *
+ * Query strings are left out, as signed download and upload URLs carry
+ * credentials in them.
+ *
+ * @param {string} method - HTTP method
+ * @param {string} url - Requested URL
+ * @param {number | string} outcome - Response status or failure reason
+ * @param {number} startedAt - Time the request was sent in milliseconds
+ */
+export function traceHttpRequest(
+	method: string,
+	url: string,
+	outcome: number | string,
+	startedAt: number,
+): void {
+	if (!logger.isEnabled("debug")) {
+		return;
+	}
+	logger.debug(
+		`HTTP ${method} ${url.replace(/[?#].*$/, "")} ${outcome} (${Date.now() - startedAt}ms)`,
+	);
+}
+
+/**
+ * Sends an HTTP request outside of the API client, tracing it at the debug level
+ *
+ * @param {string} url - URL to request
+ * @param {RequestInit} [init] - Request options
+ * @returns {Promise<Response>} - Response
+ */
+export async function fetchWithTrace(
+	url: string,
+	init: RequestInit = {},
+): Promise<Response> {
+	const method = (init.method ?? "GET").toUpperCase();
+	const startedAt = Date.now();
+	try {
+		const response = await fetch(url, init);
+		traceHttpRequest(method, url, response.status, startedAt);
+		return response;
+	} catch (error) {
+		traceHttpRequest(
+			method,
+			url,
+			`failed: ${error instanceof Error ? error.message : String(error)}`,
+			startedAt,
+		);
+		throw error;
+	}
+}
+
+/**
+ * Creates a REST API client for the configured GitHub instance
+ *
+ * Rate limited calls are retried once the limit allows it, idempotent calls
+ * also after network and server errors with jittered exponential backoff.
+ *
+ * @param {Object} params - Client parameters
+ * @param {string | null} [params.token] - GitHub token, omitted for anonymous requests
+ * @param {string} [params.apiUrl] - Configured API base URL
+ * @param {ApiRetryOptions} [params.retry] - Retry behaviour
+ * @returns {Octokit} - API client
+ */
+export function createOctokit({
+	token,
+	apiUrl,
+	retry: {
+		retries = DEFAULT_API_RETRIES,
+		retryDelayMs = DEFAULT_API_RETRY_DELAY_MS,
+	} = {},
+}: {
+	token?: string | null;
+	apiUrl?: string;
+	retry?: ApiRetryOptions;
+}): Octokit {
+	const octokit = new Octokit({
+		auth: token ?? undefined,
+		baseUrl: getGitHubApiUrl(apiUrl),
+	});
+
+	octokit.hook.wrap("request", async (request, options) => {
+		const method = options.method.toUpperCase();
+		for (let attempt = 0; ; attempt++) {
+			const startedAt = Date.now();
+			try {
+				const response = await request(options);
+				traceHttpRequest(method, response.url, response.status, startedAt);
+				logRateLimitQuota(response.headers);
+				return response;
+			} catch (error) {
+				const { status, request: failedRequest } = (error ?? {}) as {
+					status?: number;
+					request?: { url?: string };
+				};
+				traceHttpRequest(
+					method,
+					failedRequest?.url ?? options.url,
+					status ?? "failed",
+					startedAt,
+				);
+				logRateLimitQuota(
+					(
+						error as
+							| { response?: { headers?: Record<string, unknown> } }
+							| undefined
+					)?.response?.headers,
+				);
+				if (attempt >= retries) {
+					throw error;
+				}
+
+				const rateLimitDelayMs = getRateLimitDelayMs(error);
+				let delayMs: number;
+				if (rateLimitDelayMs !== null) {
+					if (rateLimitDelayMs > MAX_RATE_LIMIT_WAIT_MS) {
+						throw error;
+					}
+					// Rejected requests were not processed, so any method can be repeated
+					delayMs = rateLimitDelayMs + getBackoffDelayMs(0, retryDelayMs);
+					logger.warn(
+						`GitHub API rate limit reached, retrying ${method} ${options.url} in ${Math.ceil(delayMs / 1000)}s`,
+					);
+				} else if (
+					IDEMPOTENT_METHODS.has(method) &&
+					isTransientApiError(error)
+				) {
+					delayMs = getBackoffDelayMs(attempt, retryDelayMs);
+					logger.warn(
+						`${method} ${options.url} failed: ${error instanceof Error ? error.message : String(error)}, retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 2} of ${retries + 1})`,
+					);
+				} else {
+					throw error;
+				}
+				await new Promise((resolve) => setTimeout(resolve, delayMs));
+			}
+		}
+	});
+
+	return octokit;
+}
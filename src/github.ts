@@ -5,13 +5,71 @@
  * @module github-service
  */
 
-import * as path from "node:path";
-import { Octokit, type RestEndpointMethodTypes } from "@octokit/rest";
+import { text } from "node:stream/consumers";
+import type { Octokit, RestEndpointMethodTypes } from "@octokit/rest";
 import * as fs from "fs-extra";
-import { create as createTar } from "tar";
-import { uuidv7 } from "uuidv7";
+import {
+	isManifestFileName,
+	selectArtifact,
+	toManifestFileName,
+} from "./artifacts";
+import { openUrlDownloadStreamAsync } from "./download";
+import { describeGitHubError } from "./github-access";
+import { createOctokit, fetchWithTrace } from "./github-client";
 import { logger } from "./logger";
-import { getTemporaryDirectory } from "./utils";
+import { MANIFEST_FILE_NAME } from "./manifest";
+import { parseTagName } from "./tag-name";
+import type {
+	BuildManifest,
+	CacheEntry,
+	CacheStorageBackend,
+	DownloadOptions,
+	DownloadStream,
+	ReleaseMode,
+	StoredKey,
+} from "./types";
+import { createProgressStream, prepareArtifactForUploadAsync } from "./utils";
+
+/** GitHub rejects release assets of 2 GiB or more */
+const MAX_RELEASE_ASSET_SIZE = 2 * 1024 * 1024 * 1024;
+
+/** An upload that was not updated for this long has been abandoned */
+const STALE_UPLOAD_MS = 10 * 60 * 1000;
+
+/** Builds are uploaded right before their manifest, one missing it for longer never gets one */
+const MANIFEST_GRACE_MS = 60 * 1000;
+
+/**
+ * Release that receives an upload
+ */
+interface UploadTargetRelease {
+	/** Release ID */
+	id: number;
+	/** Upload URL template of the release */
+	upload_url: string;
+	/** Assets already attached to the release */
+	assets: ReleaseAsset[];
+}
+
+/**
+ * Asset attached to a release
+ */
+interface ReleaseAsset {
+	/** Asset ID */
+	id: number;
+	/** File name of the asset */
+	name: string;
+	/** Size in bytes */
+	size: number;
+	/** API URL of the asset */
+	url: string;
+	/** Public download URL of the asset */
+	browser_download_url: string;
+	/** "uploaded" once the upload has completed */
+	state: string;
+	/** Time of the last change as an ISO 8601 string */
+	updated_at: string;
+}
 
 /**
  * Configuration parameters for GitHub release creation and asset publishing
@@ -25,10 +83,26 @@ interface ReleasePublishConfig {
 	owner: string;
 	/** Repository name without owner prefix */
 	repo: string;
+	/** REST API base URL of a GitHub Enterprise Server, defaults to `GITHUB_API_URL` or github.com */
+	apiUrl?: string;
 	/** Git tag name to associate with the release (will be created if needed) */
 	tagName: string;
 	/** Filesystem path to the build artifact file or directory to upload */
 	binaryPath: string;
+	/** Asset name to upload the artifact as, defaults to the artifact file name */
+	assetName?: string;
+	/** Build metadata uploaded as `manifest.json` next to the artifact */
+	manifest?: BuildManifest;
+	/** Branch, tag or commit SHA new tags point at, defaults to the default branch */
+	targetCommitish?: string;
+	/** Tag the commit recorded in the manifest when it has been pushed */
+	tagLocalCommit?: boolean;
+	/** "tag" publishes a prerelease with an annotated tag, "draft" keeps an untagged draft release */
+	releaseMode?: ReleaseMode;
+	/** Namespace of lightweight refs recording the built commit, e.g. "refs/expo-cache" */
+	refNamespace?: string;
+	/** Delay between checks of an asset another job is still uploading, defaults to 3 seconds */
+	concurrentUploadPollMs?: number;
 }
 
 /**
@@ -41,121 +115,281 @@ export async function createReleaseAndUploadAsset({
 	token,
 	owner,
 	repo,
+	apiUrl,
 	tagName,
 	binaryPath,
+	assetName,
+	manifest,
+	targetCommitish,
+	tagLocalCommit,
+	releaseMode = "tag",
+	refNamespace,
+	concurrentUploadPollMs,
 }: ReleasePublishConfig) {
-	const octokit = new Octokit({ auth: token });
+	const octokit = createOctokit({ token, apiUrl });
+	const { filePath, name: defaultName } =
+		await prepareArtifactForUploadAsync(binaryPath);
+	const name = assetName ?? defaultName;
 
 	try {
-		let releaseId: number;
+		let release: UploadTargetRelease;
+
+		const { size } = await fs.stat(filePath);
+		assertReleaseAssetSize(name, size);
 
 		logger.startSpinner(`Getting commit SHA from repository ${owner}/${repo}`);
-		const commitSha = await findDefaultBranchCommit(octokit, owner, repo);
+		const commitSha = await resolveTargetCommit(octokit, owner, repo, {
+			targetCommitish,
+			localCommitSha: tagLocalCommit ? manifest?.gitSha : undefined,
+		});
 		logger.succeedSpinner(`Found commit SHA: ${commitSha.substring(0, 7)}`);
 
-		logger.startSpinner(`Ensuring tag ${tagName} exists`);
-		const { exists } = await createOrRetrieveGitTag(octokit, {
-			owner,
-			repo,
-			tag: tagName,
-			message: tagName,
-			object: commitSha,
-			type: "commit",
-		});
-		logger.succeedSpinner(
-			`Tag ${exists ? "already exists" : "created successfully"}`,
-		);
+		if (releaseMode === "draft") {
+			release = await ensureDraftRelease(octokit, {
+				owner,
+				repo,
+				name: tagName,
+				commitSha,
+			});
+		} else {
+			logger.startSpinner(`Ensuring tag ${tagName} exists`);
+			const { exists } = await createOrRetrieveGitTag(octokit, {
+				owner,
+				repo,
+				tag: tagName,
+				message: tagName,
+				object: commitSha,
+				type: "commit",
+			});
+			logger.succeedSpinner(
+				`Tag ${exists ? "already exists" : "created successfully"}`,
+			);
 
-		if (exists) {
-			logger.startSpinner(`Getting existing release for tag ${tagName}`);
-			const existingRelease = await octokit.rest.repos.getReleaseByTag({
+			release = await ensureTaggedRelease(octokit, {
 				owner,
 				repo,
 				tag: tagName,
 			});
-			releaseId = existingRelease.data.id;
-			logger.succeedSpinner(`Found existing release with ID: ${releaseId}`);
-		} else {
-			logger.startSpinner(`Creating new release for tag ${tagName}`);
-			const newRelease = await octokit.rest.repos.createRelease({
+		}
+
+		if (refNamespace) {
+			await createCacheRef(octokit, {
 				owner,
 				repo,
-				tag_name: tagName,
-				name: tagName,
-				draft: false,
-				prerelease: true,
-			}); // prettier-ignore
-			releaseId = newRelease.data.id;
-			logger.succeedSpinner(`Created new release with ID: ${releaseId}`);
+				ref: toCacheRef(refNamespace, tagName),
+				sha: commitSha,
+			});
 		}
 
-		logger.startSpinner("Uploading asset to release");
-		const result = await uploadReleaseAsset(octokit, {
+		const manifestName = toManifestFileName(name);
+		const settleUpload = (assets?: ReleaseAsset[]) =>
+			settleConcurrentUploadAsync(octokit, {
+				owner,
+				repo,
+				releaseId: release.id,
+				assets,
+				name,
+				manifestName,
+				requireManifest: manifest !== undefined,
+				delayMs: concurrentUploadPollMs,
+			});
+
+		const existing = await settleUpload(release.assets);
+		if (existing.state === "stale") {
+			logger.info(`Replacing ${name} left incomplete by an earlier upload`);
+		} else if (
+			existing.asset &&
+			manifest &&
+			(await isEquivalentAssetAsync(existing.asset, {
+				manifest,
+				manifestAsset: existing.manifestAsset,
+				token,
+				apiUrl,
+			}))
+		) {
+			logger.info(
+				`${name} with the same contents is already uploaded, skipping upload`,
+			);
+			return existing.asset.browser_download_url;
+		}
+		await deleteReleaseAssets(octokit, {
 			owner,
 			repo,
-			releaseId,
-			binaryPath,
+			assets: [existing.asset, existing.manifestAsset].filter(
+				(candidate): candidate is ReleaseAsset => candidate !== undefined,
+			),
 		});
+
+		let asset: ReleaseAsset | undefined;
+		for (let attempt = 0; !asset; attempt++) {
+			logger.startSpinner("Uploading asset to release");
+			try {
+				asset = await uploadReleaseAsset({
+					token,
+					uploadUrl: release.upload_url,
+					filePath,
+					name,
+					size,
+				});
+			} catch (error) {
+				if (!isAlreadyExistsError(error) || attempt > 0) {
+					throw error;
+				}
+				// Another job started uploading a build for the same key since the release was read
+				const winner = await settleUpload();
+				if (winner.asset && winner.state === "complete") {
+					logger.succeedSpinner(
+						`${name} was uploaded by a concurrent job, skipping upload`,
+					);
+					return winner.asset.browser_download_url;
+				}
+				await deleteReleaseAssets(octokit, {
+					owner,
+					repo,
+					assets: [winner.asset, winner.manifestAsset].filter(
+						(candidate): candidate is ReleaseAsset => candidate !== undefined,
+					),
+				});
+			}
+		}
 		logger.succeedSpinner("Asset uploaded successfully");
 
-		return result.data.browser_download_url;
+		if (manifest) {
+			logger.startSpinner(`Uploading ${manifestName}`);
+			const manifestData = JSON.stringify(manifest, null, 2);
+			try {
+				// upload_url also points at the upload host of GitHub Enterprise Server
+				await octokit.request(`POST ${release.upload_url}`, {
+					name: manifestName,
+					data: manifestData,
+					headers: {
+						"content-type": "application/json",
+						"content-length": Buffer.byteLength(manifestData).toString(),
+					},
+				});
+				logger.succeedSpinner("Manifest uploaded successfully");
+			} catch (error) {
+				if (!isAlreadyExistsError(error)) {
+					throw error;
+				}
+				logger.succeedSpinner(
+					`${manifestName} was uploaded by a concurrent job`,
+				);
+			}
+		}
+
+		return asset.browser_download_url;
 	} catch (error) {
-		logger.error("GitHub release failed", error);
+		// The repository was found before, a 404 here concerns a release or tag
+		const guidance =
+			(error as { status?: number } | undefined)?.status === 404
+				? null
+				: describeGitHubError(error, { owner, repo, access: "write" });
+		logger.error("GitHub release failed", guidance ?? error);
 		throw new Error(
-			`GitHub release failed: ${error instanceof Error ? error.message : String(error)}`,
+			`GitHub release failed: ${guidance ?? (error instanceof Error ? error.message : String(error))}`,
 		);
+	} finally {
+		if (filePath !== binaryPath) {
+			await fs.remove(filePath);
+		}
 	}
 }
 
 /**
- * Retrieves the latest commit SHA from a repository with intelligent branch detection
+ * Ensures an artifact fits into a single GitHub release asset
  *
- * This function attempts to find the default branch by trying common conventions
- * like "main" and "master" in order of popularity.
+ * @param {string} name - Asset name
+ * @param {number} size - Asset size in bytes
+ * @throws {Error} - When the asset exceeds GitHub's 2 GiB limit
+ */
+export function assertReleaseAssetSize(name: string, size: number): void {
+	if (size >= MAX_RELEASE_ASSET_SIZE) {
+		throw new Error(
+			`${name} is ${(size / 1024 / 1024 / 1024).toFixed(2)} GiB, but GitHub release assets must be smaller than 2 GiB. Reduce the build size (e.g. build a single architecture) or use a different storage backend.`,
+		);
+	}
+}
+
+/**
+ * Commit selection for the tags of new releases
+ */
+interface TargetCommitOptions {
+	/** Branch, tag or commit SHA to tag, defaults to the repository's default branch */
+	targetCommitish?: string;
+	/** Locally checked out commit the build was made from, preferred when it exists on GitHub */
+	localCommitSha?: string | null;
+}
+
+/**
+ * Resolves the commit SHA a new cache tag should point at
+ *
+ * The local commit is used when it has been pushed, otherwise the
+ * `targetCommitish` option, otherwise the head of the default branch reported
+ * by the repository metadata.
  *
  * @param {Octokit} octokit - Authenticated Octokit API client
  * @param {string} owner - Repository owner or organization name
  * @param {string} repo - Repository name
- * @returns {Promise<string>} - The SHA hash of the latest commit on the default branch
- * @throws {Error} - When no valid branch can be found after exhausting options
+ * @param {TargetCommitOptions} [options] - Commit selection options
+ * @returns {Promise<string>} - The SHA of the commit to tag
+ * @throws {Error} - When the configured target does not exist in the repository
  */
-async function findDefaultBranchCommit(
+export async function resolveTargetCommit(
 	octokit: Octokit,
 	owner: string,
 	repo: string,
+	{ targetCommitish, localCommitSha }: TargetCommitOptions = {},
 ): Promise<string> {
-	// Common default branch names in order of modern popularity
-	const defaultBranchCandidates = ["main", "master"];
+	if (localCommitSha) {
+		try {
+			logger.updateSpinner(`Looking up local commit ${localCommitSha}`);
+			const { data } = await octokit.rest.repos.getCommit({
+				owner,
+				repo,
+				ref: localCommitSha,
+			});
+			return data.sha;
+		} catch (error: any) {
+			// 422 means the SHA is unknown to GitHub, i.e. it was never pushed
+			if (error.status !== 404 && error.status !== 422) {
+				throw error;
+			}
+			logger.warn(
+				`Commit ${localCommitSha.substring(0, 7)} has not been pushed to ${owner}/${repo}, tagging ${targetCommitish ?? "the default branch"} instead`,
+			);
+		}
+	}
 
-	// Try each branch name in sequence until one works
-	for (const branchName of defaultBranchCandidates) {
+	if (targetCommitish) {
 		try {
-			logger.updateSpinner(`Detecting branch: ${branchName}`);
-			const { data } = await octokit.rest.repos.getBranch({
+			logger.updateSpinner(`Resolving ${targetCommitish}`);
+			const { data } = await octokit.rest.repos.getCommit({
 				owner,
 				repo,
-				branch: branchName,
+				ref: targetCommitish,
 			});
-			return data.commit.sha;
-		} catch (error) {
-			if (
-				error instanceof Error &&
-				error.message.includes("Branch not found")
-			) {
-				const isLastAttempt =
-					branchName ===
-					defaultBranchCandidates[defaultBranchCandidates.length - 1];
-				if (isLastAttempt) {
-					throw new Error(
-						`Could not find any default branch in ${owner}/${repo}`,
-					);
-				}
-				continue;
+			return data.sha;
+		} catch (error: any) {
+			if (error.status === 404 || error.status === 422) {
+				throw new Error(
+					`targetCommitish "${targetCommitish}" does not exist in ${owner}/${repo}`,
+				);
 			}
 			throw error;
 		}
 	}
-	throw new Error("Could not determine repository default branch");
+
+	logger.updateSpinner("Detecting default branch");
+	const {
+		data: { default_branch: defaultBranch },
+	} = await octokit.rest.repos.get({ owner, repo });
+	const { data } = await octokit.rest.repos.getBranch({
+		owner,
+		repo,
+		branch: defaultBranch,
+	});
+	return data.commit.sha;
 }
 
 /**
@@ -193,85 +427,505 @@ async function createOrRetrieveGitTag(
 	const { data: tagData } = await octokit.rest.git.createTag(params);
 
 	// Create the tag reference pointing to the tag object
-	await octokit.rest.git.createRef({
+	try {
+		await octokit.rest.git.createRef({
+			owner,
+			repo,
+			ref: refName,
+			sha: tagData.sha,
+		});
+	} catch (err) {
+		if (!isAlreadyExistsError(err)) {
+			throw err;
+		}
+		// A concurrent upload created the tag first, its tag object is used instead
+		const { data: existingRef } = await octokit.rest.git.getRef({
+			owner,
+			repo,
+			ref: `tags/${tag}`,
+		});
+		return { sha: existingRef.object.sha, exists: true };
+	}
+	return { sha: tagData.sha, exists: false };
+}
+
+/**
+ * Checks whether GitHub rejected a request because the resource already exists
+ *
+ * GitHub answers 422 with an `already_exists` validation error for releases
+ * and assets, and "Reference already exists" for refs.
+ *
+ * @param {unknown} error - Error thrown by the request
+ * @returns {boolean} - True when the resource exists
+ */
+function isAlreadyExistsError(error: unknown): boolean {
+	const { status, message } = (error ?? {}) as {
+		status?: number;
+		message?: string;
+	};
+	return status === 422 && /already[ _]exists/i.test(message ?? "");
+}
+
+/**
+ * Classifies the upload of a release asset
+ *
+ * Builds are uploaded before their manifest. An upload is still in progress
+ * while the asset is being uploaded or waits for its manifest, and stale once
+ * that took longer than another job would need; builds uploaded before
+ * manifests existed are stale as well.
+ *
+ * @param {ReleaseAsset} asset - Uploaded build
+ * @param {Object} params - Manifest state
+ * @param {ReleaseAsset} [params.manifestAsset] - Manifest of the build
+ * @param {boolean} params.requireManifest - Whether a complete upload has a manifest
+ * @param {number} [params.now] - Current time in milliseconds
+ * @returns {"complete" | "in-progress" | "stale"} - State of the upload
+ */
+function getUploadState(
+	asset: ReleaseAsset,
+	{
+		manifestAsset,
+		requireManifest,
+		now = Date.now(),
+	}: {
+		manifestAsset?: ReleaseAsset;
+		requireManifest: boolean;
+		now?: number;
+	},
+): "complete" | "in-progress" | "stale" {
+	const uploaded = asset.state === "uploaded";
+	if (uploaded && (!requireManifest || manifestAsset?.state === "uploaded")) {
+		return "complete";
+	}
+	const ageMs = now - Date.parse(asset.updated_at);
+	// An unknown age counts as stale so nothing is awaited forever
+	return ageMs <= (uploaded ? MANIFEST_GRACE_MS : STALE_UPLOAD_MS)
+		? "in-progress"
+		: "stale";
+}
+
+/**
+ * Waits until an upload of another job completes or goes stale
+ *
+ * @param {Octokit} octokit - Authenticated Octokit API client
+ * @param {Object} params - Release, asset names and polling
+ * @returns {Promise<{asset?: ReleaseAsset, manifestAsset?: ReleaseAsset, state?: "complete" | "stale"}>} - Assets of the build, without one when none exists
+ */
+async function settleConcurrentUploadAsync(
+	octokit: Octokit,
+	{
+		owner,
+		repo,
+		releaseId,
+		assets,
+		name,
+		manifestName,
+		requireManifest,
+		delayMs = 3000,
+	}: {
+		owner: string;
+		repo: string;
+		releaseId: number;
+		/** Current assets of the release, fetched when omitted */
+		assets?: ReleaseAsset[];
+		name: string;
+		manifestName: string;
+		requireManifest: boolean;
+		delayMs?: number;
+	},
+): Promise<{
+	asset?: ReleaseAsset;
+	manifestAsset?: ReleaseAsset;
+	state?: "complete" | "stale";
+}> {
+	const fetchAssets = async () =>
+		(
+			await octokit.rest.repos.getRelease({
+				owner,
+				repo,
+				release_id: releaseId,
+			})
+		).data.assets;
+
+	let current = assets ?? (await fetchAssets());
+	for (let waited = false; ; waited = true) {
+		const asset = current.find((candidate) => candidate.name === name);
+		const manifestAsset = current.find(
+			(candidate) => candidate.name === manifestName,
+		);
+		const state = asset
+			? getUploadState(asset, { manifestAsset, requireManifest })
+			: undefined;
+		if (state !== "in-progress") {
+			if (waited) {
+				logger.succeedSpinner(
+					`Concurrent upload of ${name} ${state === "complete" ? "finished" : state === "stale" ? "was abandoned" : "was removed"}`,
+				);
+			}
+			return { asset, manifestAsset, state };
+		}
+		logger.startSpinner(`Waiting for a concurrent upload of ${name}`);
+		await new Promise((resolve) => setTimeout(resolve, delayMs));
+		current = await fetchAssets();
+	}
+}
+
+/**
+ * Returns the release of a tag, creating it if needed
+ *
+ * When a concurrent upload creates the release between the lookup and the
+ * creation, its release is used.
+ *
+ * @param {Octokit} octokit - Authenticated Octokit API client
+ * @param {Object} params - Repository and tag
+ * @returns {Promise<UploadTargetRelease>} - Release of the tag
+ */
+async function ensureTaggedRelease(
+	octokit: Octokit,
+	{ owner, repo, tag }: { owner: string; repo: string; tag: string },
+): Promise<UploadTargetRelease> {
+	logger.startSpinner(`Getting release for tag ${tag}`);
+	try {
+		const { data } = await octokit.rest.repos.getReleaseByTag({
+			owner,
+			repo,
+			tag,
+		});
+		logger.succeedSpinner(`Found existing release with ID: ${data.id}`);
+		return data;
+	} catch (error: any) {
+		// The tag may exist without a release when a concurrent upload is creating it
+		if (error.status !== 404) {
+			throw error;
+		}
+	}
+
+	try {
+		logger.updateSpinner(`Creating new release for tag ${tag}`);
+		const { data } = await octokit.rest.repos.createRelease({
+			owner,
+			repo,
+			tag_name: tag,
+			name: tag,
+			draft: false,
+			prerelease: true,
+		});
+		logger.succeedSpinner(`Created new release with ID: ${data.id}`);
+		return data;
+	} catch (error) {
+		if (!isAlreadyExistsError(error)) {
+			throw error;
+		}
+	}
+
+	const { data } = await octokit.rest.repos.getReleaseByTag({
 		owner,
 		repo,
-		ref: refName,
-		sha: tagData.sha,
+		tag,
 	});
-	return { sha: tagData.sha, exists: false };
+	logger.succeedSpinner(
+		`Using release ${data.id} created by a concurrent upload`,
+	);
+	return data;
+}
+
+/**
+ * Checks whether an uploaded asset has the same contents as a new build
+ *
+ * The SHA-256 recorded in the manifest uploaded next to the asset is compared
+ * with the new build's manifest, so the asset itself is not downloaded.
+ *
+ * @param {ReleaseAsset} asset - Asset already attached to the release
+ * @param {Object} params - New build manifest and the existing manifest asset
+ * @returns {Promise<boolean>} - True when the asset need not be uploaded again
+ */
+async function isEquivalentAssetAsync(
+	asset: ReleaseAsset,
+	{
+		manifest,
+		manifestAsset,
+		token,
+		apiUrl,
+	}: {
+		manifest: BuildManifest;
+		manifestAsset?: ReleaseAsset;
+		token: string;
+		apiUrl?: string;
+	},
+): Promise<boolean> {
+	if (
+		asset.state !== "uploaded" ||
+		asset.size !== manifest.size ||
+		!manifestAsset
+	) {
+		return false;
+	}
+	try {
+		const { body } = await openUrlDownloadStreamAsync(
+			manifestAsset.url,
+			token,
+			{
+				apiUrl,
+			},
+		);
+		const existing = JSON.parse(
+			await text(body as NodeJS.ReadableStream & AsyncIterable<any>),
+		) as BuildManifest;
+		return existing.sha256 === manifest.sha256;
+	} catch (error) {
+		logger.debug(
+			`Cannot read ${manifestAsset.name}, replacing ${asset.name}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		return false;
+	}
+}
+
+/**
+ * Builds the full name of a lightweight cache ref
+ *
+ * @param {string} namespace - Ref namespace, e.g. "refs/expo-cache"
+ * @param {string} key - Cache key
+ * @returns {string} - Ref name such as "refs/expo-cache/fingerprint.abc.ios"
+ */
+export function toCacheRef(namespace: string, key: string): string {
+	const normalized = namespace.replace(/\/+$/, "");
+	return `${normalized.startsWith("refs/") ? normalized : `refs/${normalized}`}/${key}`;
+}
+
+/**
+ * Creates a lightweight ref pointing at a commit
+ *
+ * Refs outside of `refs/tags` do not trigger tag based workflows. An existing
+ * ref is left as it is.
+ *
+ * @param {Octokit} octokit - Authenticated Octokit API client
+ * @param {Object} params - Ref parameters
+ * @returns {Promise<void>}
+ */
+async function createCacheRef(
+	octokit: Octokit,
+	{
+		owner,
+		repo,
+		ref,
+		sha,
+	}: { owner: string; repo: string; ref: string; sha: string },
+): Promise<void> {
+	logger.startSpinner(`Creating ref ${ref}`);
+	try {
+		await octokit.rest.git.createRef({ owner, repo, ref, sha });
+		logger.succeedSpinner(`Created ref ${ref}`);
+	} catch (error: any) {
+		// GitHub answers 422 when the ref already exists
+		if (error.status !== 422) {
+			throw error;
+		}
+		logger.succeedSpinner(`Ref ${ref} already exists`);
+	}
+}
+
+/**
+ * Finds the draft release created for a cache key
+ *
+ * Draft releases have no tag yet, so they cannot be fetched by tag and are
+ * matched by name instead. Only tokens with push access can see drafts.
+ *
+ * @param {Octokit} octokit - Authenticated Octokit API client
+ * @param {string} owner - Repository owner or organization name
+ * @param {string} repo - Repository name
+ * @param {string} name - Release name (the cache key)
+ * @returns {Promise<any | null>} - Draft release or null if there is none
+ */
+async function findDraftRelease(
+	octokit: Octokit,
+	owner: string,
+	repo: string,
+	name: string,
+) {
+	for await (const { data: releases } of octokit.paginate.iterator(
+		octokit.rest.repos.listReleases,
+		{ owner, repo, per_page: 100 },
+	)) {
+		const release = releases.find(
+			(candidate) => candidate.draft && candidate.name === name,
+		);
+		if (release) {
+			return release;
+		}
+	}
+	return null;
+}
+
+/**
+ * Returns the draft release for a cache key, creating it if needed
+ *
+ * @param {Octokit} octokit - Authenticated Octokit API client
+ * @param {Object} params - Release parameters
+ * @returns {Promise<UploadTargetRelease>} - Draft release
+ */
+async function ensureDraftRelease(
+	octokit: Octokit,
+	{
+		owner,
+		repo,
+		name,
+		commitSha,
+	}: { owner: string; repo: string; name: string; commitSha: string },
+): Promise<UploadTargetRelease> {
+	logger.startSpinner(`Looking for draft release ${name}`);
+	const existing = await findDraftRelease(octokit, owner, repo, name);
+	if (existing) {
+		logger.succeedSpinner(
+			`Found existing draft release with ID: ${existing.id}`,
+		);
+		return existing;
+	}
+
+	// The tag is only created if the draft is ever published
+	const { data } = await octokit.rest.repos.createRelease({
+		owner,
+		repo,
+		tag_name: name,
+		name,
+		target_commitish: commitSha,
+		draft: true,
+		prerelease: true,
+	});
+
+	// Drafts are not unique, so concurrent uploads settle on the oldest one
+	const drafts = (
+		await octokit.paginate(octokit.rest.repos.listReleases, {
+			owner,
+			repo,
+			per_page: 100,
+		})
+	).filter((candidate) => candidate.draft && candidate.name === name);
+	const winner = drafts.reduce<UploadTargetRelease>(
+		(oldest, candidate) => (candidate.id < oldest.id ? candidate : oldest),
+		data,
+	);
+	if (winner.id !== data.id) {
+		await octokit.rest.repos.deleteRelease({
+			owner,
+			repo,
+			release_id: data.id,
+		});
+		logger.succeedSpinner(
+			`Using draft release ${winner.id} created by a concurrent upload`,
+		);
+		return winner;
+	}
+
+	logger.succeedSpinner(`Created draft release with ID: ${data.id}`);
+	return data;
+}
+
+/**
+ * Deletes release assets so an upload can replace them
+ *
+ * GitHub rejects uploads whose name matches an existing asset, so a rebuild
+ * for the same key would otherwise fail.
+ *
+ * @param {Octokit} octokit - Authenticated Octokit API client
+ * @param {Object} params - Repository and assets to delete
+ * @returns {Promise<void>}
+ */
+async function deleteReleaseAssets(
+	octokit: Octokit,
+	{
+		owner,
+		repo,
+		assets,
+	}: {
+		owner: string;
+		repo: string;
+		assets: Array<{ id: number; name: string }>;
+	},
+): Promise<void> {
+	for (const asset of assets) {
+		logger.startSpinner(`Replacing existing asset ${asset.name}`);
+		await octokit.rest.repos.deleteReleaseAsset({
+			owner,
+			repo,
+			asset_id: asset.id,
+		});
+		logger.succeedSpinner(`Deleted existing asset ${asset.name}`);
+	}
 }
 
 /**
  * Asset upload configuration for GitHub releases
  */
 interface AssetUploadParams {
-	/** Repository owner or organization name */
-	owner: string;
-	/** Repository name */
-	repo: string;
-	/** GitHub Release ID where asset will be attached */
-	releaseId: number;
-	/** Path to the build artifact file or directory */
-	binaryPath: string;
+	/** GitHub token with permissions to upload release assets */
+	token: string;
+	/** Upload URL template of the release (`upload_url`) */
+	uploadUrl: string;
+	/** Path to the artifact file */
+	filePath: string;
+	/** Asset name to upload the artifact as */
+	name: string;
+	/** Artifact size in bytes */
+	size: number;
 }
 
 /**
  * Uploads a build artifact as a release asset to GitHub
  *
- * Handles both file and directory artifacts (directories are automatically archived)
+ * The file is streamed from disk, so memory usage does not depend on the
+ * artifact size, and the upload progress is reported through the spinner.
  *
- * @param {Octokit} octokit - Authenticated Octokit client
  * @param {AssetUploadParams} params - Upload configuration parameters
- * @returns {Promise<any>} - GitHub API response with asset information
+ * @returns {Promise<any>} - Uploaded release asset
  */
-async function uploadReleaseAsset(octokit: Octokit, params: AssetUploadParams) {
-	let filePath = params.binaryPath;
-	let name = path.basename(filePath);
-
-	if ((await fs.stat(filePath)).isDirectory()) {
-		logger.info("Asset is a directory, creating tarball");
-		await fs.mkdirp(getTemporaryDirectory());
-		const tarPath = path.join(getTemporaryDirectory(), `${uuidv7()}.tar.gz`);
-		const parentPath = path.dirname(filePath);
-
-		logger.startSpinner("Creating tarball from directory");
-		await createTar({ cwd: parentPath, file: tarPath, gzip: true }, [name]);
-		logger.succeedSpinner(`Tarball created at ${path.basename(tarPath)}`);
-
-		filePath = tarPath;
-		name = `${name}.tar.gz`;
-	}
-
-	logger.startSpinner("Reading file data for upload");
-	const fileData = await fs.readFile(filePath);
-	logger.updateSpinner(
-		`Uploading ${name} (${(fileData.length / 1024 / 1024).toFixed(2)} MB)`,
-	);
+async function uploadReleaseAsset({
+	token,
+	uploadUrl,
+	filePath,
+	name,
+	size,
+}: AssetUploadParams): Promise<any> {
+	// upload_url is a URI template like ".../assets{?name,label}"
+	const url = new URL(uploadUrl.replace(/\{[^}]*\}$/, ""));
+	url.searchParams.set("name", name);
 
-	return octokit.rest.repos.uploadReleaseAsset({
-		owner: params.owner,
-		repo: params.repo,
-		release_id: params.releaseId,
-		name,
-		data: fileData as unknown as string, // Type workaround for binary data
+	const response = await fetchWithTrace(url.toString(), {
+		method: "POST",
 		headers: {
-			"content-type": "application/octet-stream",
-			"content-length": fileData.length.toString(),
+			Accept: "application/vnd.github+json",
+			Authorization: `Bearer ${token}`,
+			"Content-Type": "application/octet-stream",
+			"Content-Length": size.toString(),
 		},
+		body: fs
+			.createReadStream(filePath)
+			.pipe(createProgressStream(size, `Uploading ${name}`)),
 	});
+
+	if (!response.ok) {
+		throw Object.assign(
+			new Error(
+				`Uploading ${name} failed: ${response.status} ${await response.text()}`,
+			),
+			{ status: response.status },
+		);
+	}
+
+	return response.json();
 }
 
 /**
  * Asset retrieval configuration
  */
 interface AssetSearchConfig {
-	/** GitHub personal access token with repository read access */
-	token: string;
+	/** GitHub personal access token with repository read access, null for public repositories */
+	token: string | null;
 	/** Repository owner or organization name */
 	owner: string;
 	/** Repository name */
 	repo: string;
+	/** REST API base URL, defaults to `GITHUB_API_URL` or github.com */
+	apiUrl?: string;
 	/** Git tag name associated with the release containing assets */
 	tag: string;
 }
@@ -287,9 +941,10 @@ export async function fetchReleaseAssetsByTag({
 	token,
 	owner,
 	repo,
+	apiUrl,
 	tag,
 }: AssetSearchConfig) {
-	const octokit = new Octokit({ auth: token });
+	const octokit = createOctokit({ token, apiUrl });
 	try {
 		const release = await octokit.rest.repos.getReleaseByTag({
 			owner,
@@ -307,3 +962,344 @@ export async function fetchReleaseAssetsByTag({
 		throw error;
 	}
 }
+
+/**
+ * Retrieves build artifacts from the draft release named after a cache key
+ *
+ * @param {Object} config - Repository, token and release name
+ * @returns {Promise<Array<any>>} - Array of release assets with download URLs and metadata
+ * @throws {Error} - When no draft release with the name exists
+ */
+export async function fetchDraftReleaseAssetsByName({
+	token,
+	owner,
+	repo,
+	apiUrl,
+	name,
+}: Omit<AssetSearchConfig, "tag"> & { name: string }) {
+	const octokit = createOctokit({ token, apiUrl });
+	const release = await findDraftRelease(octokit, owner, repo, name);
+	if (!release) {
+		throw new Error(`No release found with name ${name}`);
+	}
+	return release.assets;
+}
+
+/**
+ * Repository access configuration
+ */
+interface RepositoryConfig {
+	/** GitHub token with repository read access (write access for uploads and deletes), null for anonymous reads */
+	token: string | null;
+	/** Repository owner or organization name */
+	owner: string;
+	/** Repository name */
+	repo: string;
+	/** REST API base URL, defaults to `GITHUB_API_URL` or github.com */
+	apiUrl?: string;
+	/** Recognizes the tags of cached builds, defaults to the default tag scheme */
+	isCacheKey?: (tag: string) => boolean;
+}
+
+/**
+ * Configuration of the GitHub Releases storage backend
+ */
+interface ReleasesStorageConfig
+	extends RepositoryConfig,
+		Pick<
+			ReleasePublishConfig,
+			"targetCommitish" | "tagLocalCommit" | "releaseMode" | "refNamespace"
+		> {}
+
+/**
+ * Deletes the release stored under a tag together with its assets and refs
+ *
+ * @param {RepositoryConfig & {tag: string}} config - Repository, tag and release mode to delete
+ * @returns {Promise<boolean>} - False when neither a release nor a ref existed
+ */
+export async function deleteReleaseByTag({
+	token,
+	owner,
+	repo,
+	apiUrl,
+	tag,
+	releaseMode = "tag",
+	refNamespace,
+}: RepositoryConfig &
+	Pick<ReleasePublishConfig, "releaseMode" | "refNamespace"> & {
+		tag: string;
+	}): Promise<boolean> {
+	const octokit = createOctokit({ token, apiUrl });
+	let deleted = false;
+
+	try {
+		const release =
+			releaseMode === "draft"
+				? await findDraftRelease(octokit, owner, repo, tag)
+				: (await octokit.rest.repos.getReleaseByTag({ owner, repo, tag })).data;
+		if (release) {
+			// Deleting a release removes its assets as well
+			await octokit.rest.repos.deleteRelease({
+				owner,
+				repo,
+				release_id: release.id,
+			});
+			deleted = true;
+		}
+	} catch (error: any) {
+		if (error.status !== 404) {
+			throw error;
+		}
+	}
+
+	const refs = [`tags/${tag}`];
+	if (refNamespace) {
+		refs.push(toCacheRef(refNamespace, tag).replace(/^refs\//, ""));
+	}
+	for (const ref of refs) {
+		try {
+			await octokit.rest.git.deleteRef({ owner, repo, ref });
+			deleted = true;
+		} catch (error: any) {
+			// GitHub answers 422 for refs that do not exist
+			if (error.status !== 404 && error.status !== 422) {
+				throw error;
+			}
+		}
+	}
+
+	return deleted;
+}
+
+/**
+ * Lists the releases created for cached builds
+ *
+ * @param {RepositoryConfig} config - Repository to list releases from
+ * @returns {Promise<Array<any>>} - Releases whose tag follows the cache tag scheme
+ */
+export async function listCacheReleases({
+	token,
+	owner,
+	repo,
+	apiUrl,
+	isCacheKey = (tag) => parseTagName(tag) !== null,
+}: RepositoryConfig) {
+	const octokit = createOctokit({ token, apiUrl });
+	const releases = await octokit.paginate(octokit.rest.repos.listReleases, {
+		owner,
+		repo,
+		per_page: 100,
+	});
+	return releases.filter((release) => isCacheKey(release.tag_name));
+}
+
+/**
+ * Lists the keys of cache releases, tags and refs, including those that
+ * failed uploads left without a build
+ *
+ * Keys without a release are dated by their annotated tag, or by the commit a
+ * cache ref points at.
+ *
+ * @param {RepositoryConfig} config - Repository and namespace of cache refs
+ * @returns {Promise<StoredKey[]>} - Keys following the cache tag scheme
+ */
+export async function listCacheKeys(
+	config: RepositoryConfig & Pick<ReleasePublishConfig, "refNamespace">,
+): Promise<StoredKey[]> {
+	const {
+		owner,
+		repo,
+		refNamespace,
+		isCacheKey = (tag) => parseTagName(tag) !== null,
+	} = config;
+	const octokit = createOctokit({ token: config.token, apiUrl: config.apiUrl });
+	const keys = new Map<string, string | undefined>();
+	const getRefDate = async ({ type, sha }: { type: string; sha: string }) =>
+		type === "tag"
+			? (await octokit.rest.git.getTag({ owner, repo, tag_sha: sha })).data
+					.tagger.date
+			: (await octokit.rest.git.getCommit({ owner, repo, commit_sha: sha }))
+					.data.committer.date;
+
+	for (const release of await listCacheReleases(config)) {
+		keys.set(release.tag_name, release.created_at);
+	}
+
+	const prefixes = ["refs/tags/"];
+	if (refNamespace) {
+		prefixes.push(toCacheRef(refNamespace, ""));
+	}
+	for (const prefix of prefixes) {
+		const refs = await octokit.paginate(octokit.rest.git.listMatchingRefs, {
+			owner,
+			repo,
+			ref: prefix.replace(/^refs\//, ""),
+			per_page: 100,
+		});
+		for (const { ref, object } of refs) {
+			const key = ref.slice(prefix.length);
+			if (keys.has(key) || !isCacheKey(key)) {
+				continue;
+			}
+			keys.set(key, await getRefDate(object));
+		}
+	}
+
+	return [...keys].map(([key, createdAt]) => ({ key, createdAt }));
+}
+
+/**
+ * Maps a GitHub release asset to a storage backend cache entry
+ */
+function toCacheEntry(
+	key: string,
+	asset: {
+		name: string;
+		size: number;
+		url: string;
+		browser_download_url: string;
+		created_at: string;
+	},
+): CacheEntry {
+	return {
+		key,
+		name: asset.name,
+		size: asset.size,
+		// Use the API URL (url) instead of browser_download_url for GitHub API downloads
+		url: asset.url,
+		publicUrl: asset.browser_download_url,
+		createdAt: asset.created_at,
+	};
+}
+
+/**
+ * Creates a storage backend that keeps every build as an asset of a
+ * prerelease tagged with the cache key, or of a draft release named after it
+ *
+ * @param {ReleasesStorageConfig} config - Repository, token and tagging options used for all operations
+ * @returns {CacheStorageBackend} - GitHub Releases storage backend
+ */
+export function createGitHubReleasesStorage(
+	config: ReleasesStorageConfig,
+): CacheStorageBackend {
+	/**
+	 * Returns the token for operations that modify the repository
+	 *
+	 * @throws {Error} - When the backend was created for anonymous reads
+	 */
+	const requireToken = (): string => {
+		if (!config.token) {
+			throw new Error(
+				"Missing GitHub token (set GITHUB_TOKEN or GH_TOKEN, or run `gh auth login`)",
+			);
+		}
+		return config.token;
+	};
+
+	/**
+	 * Opens a release asset for download
+	 *
+	 * Without a token the public `browser_download_url` is used, which needs no
+	 * API quota. When that fails, and whenever a token is available, the asset is
+	 * requested through the API.
+	 */
+	const openAssetStreamAsync = async (
+		{ url, publicUrl }: Pick<CacheEntry, "url" | "publicUrl">,
+		options?: DownloadOptions,
+	): Promise<DownloadStream> => {
+		if (!config.token && publicUrl) {
+			try {
+				return await openUrlDownloadStreamAsync(publicUrl, null, options);
+			} catch (error: any) {
+				// Only HTTP errors say something about the public URL itself
+				if (error.status === undefined) {
+					throw error;
+				}
+				logger.warn(
+					`Anonymous download failed with status ${error.status}, retrying through the GitHub API`,
+				);
+			}
+		}
+		return openUrlDownloadStreamAsync(url, config.token, {
+			...options,
+			apiUrl: config.apiUrl,
+		});
+	};
+
+	/** Draft releases have no tag yet and are looked up by name */
+	const fetchAssets = (key: string) =>
+		config.releaseMode === "draft"
+			? fetchDraftReleaseAssetsByName({ ...config, name: key })
+			: fetchReleaseAssetsByTag({ ...config, tag: key });
+
+	return {
+		name: "GitHub Releases",
+
+		async lookup(key, selector) {
+			try {
+				const asset = selectArtifact(await fetchAssets(key), selector);
+				return asset ? toCacheEntry(key, asset) : null;
+			} catch (error) {
+				if (
+					error instanceof Error &&
+					error.message.includes("No release found")
+				) {
+					return null;
+				}
+				throw error;
+			}
+		},
+
+		download(entry, options) {
+			return openAssetStreamAsync(entry, options);
+		},
+
+		async upload({ key, filePath, name, manifest }) {
+			return createReleaseAndUploadAsset({
+				...config,
+				token: requireToken(),
+				tagName: key,
+				binaryPath: filePath,
+				assetName: name,
+				manifest,
+			});
+		},
+
+		async fetchManifest(key, name) {
+			const assets = await fetchAssets(key);
+			// Releases created before builds had their own manifest hold a single manifest.json
+			const asset =
+				assets.find(
+					(candidate) => candidate.name === toManifestFileName(name),
+				) ?? assets.find((candidate) => candidate.name === MANIFEST_FILE_NAME);
+			if (!asset) {
+				return null;
+			}
+			const { body } = await openAssetStreamAsync({
+				url: asset.url,
+				publicUrl: asset.browser_download_url,
+			});
+			const manifest = JSON.parse(
+				await text(body as NodeJS.ReadableStream & AsyncIterable<any>),
+			) as BuildManifest;
+			return manifest.fileName === name ? manifest : null;
+		},
+
+		async delete(key) {
+			return deleteReleaseByTag({ ...config, token: requireToken(), tag: key });
+		},
+
+		listKeys() {
+			return listCacheKeys(config);
+		},
+
+		async list() {
+			const releases = await listCacheReleases(config);
+			return releases.flatMap((release) =>
+				release.assets
+					.filter(({ name }) => !isManifestFileName(name))
+					.map((asset) => toCacheEntry(release.tag_name, asset)),
+			);
+		},
+	};
+}
@@ -12,20 +12,93 @@ import type {
 	UploadBuildCacheProps,
 } from "@expo/config";
 import * as fs from "fs-extra";
+import {
+	detectBuildType,
+	getBuildArtifactName,
+	getBuildArtifactSelector,
+	getExpectedBuildType,
+} from "./artifacts";
 import { downloadAndMaybeExtractAppAsync } from "./download";
-import { createReleaseAndUploadAsset, fetchReleaseAssetsByTag } from "./github";
-import { getGitHubToken } from "./github-auth";
+import { maintainLocalCacheAsync, touchCacheEntryAsync } from "./local-cache";
 import { logger } from "./logger";
-import type { RunOptions } from "./types";
-import { getBuildCacheDirectory, isDevClientBuild } from "./utils";
+import { createBuildManifestAsync, formatManifestSummary } from "./manifest";
+import {
+	type CacheEventOutcome,
+	printRunSummaryOnExit,
+	recordCacheEventAsync,
+} from "./stats";
+import { createStorageBackend } from "./storage";
+import { getTagName, toCacheFileName } from "./tag-name";
+import type {
+	BuildManifest,
+	CacheEntry,
+	CacheStorageBackend,
+	GitHubCacheOptions,
+} from "./types";
+import { getUploadSkipReasonAsync } from "./upload-policy";
+import { getBuildCacheDirectory, prepareArtifactForUploadAsync } from "./utils";
+
+/**
+ * Creates the configured storage backend, logging why it is unavailable
+ *
+ * @param {GitHubCacheOptions} options - Plugin options
+ * @param {"read" | "write"} access - Whether builds are only restored or also published
+ * @returns {Promise<CacheStorageBackend|null>} - Storage backend or null if it cannot be used
+ */
+async function getStorageBackend(
+	options: GitHubCacheOptions,
+	access: "read" | "write",
+): Promise<CacheStorageBackend | null> {
+	try {
+		return await createStorageBackend(options, { access });
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		logger.failSpinner(
+			message.startsWith("Missing GitHub token")
+				? "GitHub token not found"
+				: "Storage backend unavailable",
+		);
+		logger.error(message);
+		return null;
+	}
+}
+
+/**
+ * Reads the manifest of a cached build if the backend stores manifests
+ *
+ * A missing or unreadable manifest never prevents the build from being used.
+ *
+ * @param {CacheStorageBackend} storage - Storage backend holding the build
+ * @param {CacheEntry} entry - Cached build
+ * @returns {Promise<BuildManifest|null>} - Manifest or null if unavailable
+ */
+async function readBuildManifest(
+	storage: CacheStorageBackend,
+	entry: CacheEntry,
+): Promise<BuildManifest | null> {
+	if (!storage.fetchManifest) {
+		return null;
+	}
+
+	try {
+		const manifest = await storage.fetchManifest(entry.key, entry.name);
+		if (!manifest) {
+			logger.warn("No manifest found for this build");
+		}
+		return manifest;
+	} catch (error) {
+		logger.warn(
+			`Could not read build manifest: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		return null;
+	}
+}
 
 /**
- * Resolves and retrieves a cached build from GitHub if available
+ * Resolves and retrieves a cached build from the configured storage backend if available
  *
  * @param {ResolveBuildCacheProps} props - Build context properties from Expo
- * @param {object} githubConfig - GitHub repository configuration
- * @param {string} githubConfig.owner - Repository owner/organization name
- * @param {string} githubConfig.repo - Repository name
+ * @param {GitHubCacheOptions} options - Plugin options with the repository configuration
  * @returns {Promise<string|null>} - Path to the cached build or null if unavailable
  */
 const fetchCachedBuild = async (
@@ -35,78 +108,124 @@ const fetchCachedBuild = async (
 		fingerprintHash,
 		runOptions,
 	}: ResolveBuildCacheProps,
-	{ owner, repo }: { owner: string; repo: string },
+	options: GitHubCacheOptions,
 ): Promise<string | null> => {
+	logger.configure(options);
+	if (options.runSummary !== false) {
+		printRunSummaryOnExit();
+	}
+
 	if (!runOptions.buildCache) {
 		logger.info("Build cache is disabled, skipping download");
 		return null;
 	}
 
-	const cachedAppPath = getCachedAppPath({
-		fingerprintHash,
-		platform,
-		projectRoot,
-		runOptions,
-	});
+	const startedAt = Date.now();
+	const tag = getTagName(
+		{
+			fingerprintHash,
+			projectRoot,
+			runOptions,
+			platform,
+		},
+		options,
+	);
+	const record = (outcome: CacheEventOutcome, bytes = 0) =>
+		recordCacheEventAsync(
+			{
+				operation: "resolve",
+				outcome,
+				platform,
+				key: tag,
+				bytes,
+				durationMs: Date.now() - startedAt,
+			},
+			{ options },
+		);
+
+	const cachedAppPath = getCachedAppPath(
+		{
+			fingerprintHash,
+			platform,
+			projectRoot,
+			runOptions,
+		},
+		options,
+	);
 
 	if (fs.existsSync(cachedAppPath)) {
 		logger.success("Cached build found, skipping download");
+		await touchCacheEntryAsync(cachedAppPath);
+		await maintainLocalCacheAsync(options, cachedAppPath);
+		await record("local-hit");
 		return cachedAppPath;
 	}
 
+	const storage = await getStorageBackend(options, "read");
+	if (!storage) {
+		await record("error");
+		return null;
+	}
+
 	logger.startSpinner(
-		"Searching builds with matching fingerprint on Github Releases",
+		`Searching builds with matching fingerprint on ${storage.name}`,
 	);
 
 	try {
-		const tag = getTagName({
-			fingerprintHash,
-			projectRoot,
-			runOptions,
-			platform,
-		});
-		const githubToken = await getGitHubToken();
-		if (!githubToken) {
-			logger.failSpinner("GitHub token not found");
-			logger.error(
-				"Missing GitHub token (set GITHUB_TOKEN or GH_TOKEN, or run `gh auth login`)",
-			);
-			return null;
-		}
-
-		const assets = await fetchReleaseAssetsByTag({
-			token: githubToken,
-			owner,
-			repo,
+		const buildType = getExpectedBuildType(platform, options);
+		const entry = await storage.lookup(
 			tag,
-		});
-
-		if (!assets || assets.length === 0) {
-			logger.failSpinner("");
-			logger.warn("No assets found for this fingerprint");
-			return null;
-		}
-
-		// Use the API URL (url) instead of browser_download_url for GitHub API downloads
-		const buildDownloadURL = assets[0].url;
-		if (!buildDownloadURL) {
-			logger.failSpinner("");
-			logger.warn("Asset URL not found in the release");
+			getBuildArtifactSelector(buildType),
+		);
+		if (!entry) {
+			logger.failSpinner(
+				"No cached builds available for this fingerprint",
+				"info",
+			);
+			await record("miss");
 			return null;
 		}
 
 		logger.info(
-			`Asset name: ${assets[0].name}, size: ${Math.round((assets[0].size || 0) / 1024 / 1024)}MB`,
+			`Asset name: ${entry.name}, size: ${Math.round(entry.size / 1024 / 1024)}MB`,
 		);
-		logger.succeedSpinner("Build found on GitHub Releases");
+		logger.succeedSpinner(`Build found on ${storage.name}`);
+
+		const manifest = await readBuildManifest(storage, entry);
+		if (manifest) {
+			for (const line of formatManifestSummary(manifest)) {
+				logger.info(line);
+			}
+			const cachedType = `${manifest.format ?? buildType.format}${manifest.target ? ` ${manifest.target}` : ""}`;
+			const expectedType = `${buildType.format}${buildType.target ? ` ${buildType.target}` : ""}`;
+			if (
+				(manifest.format && manifest.format !== buildType.format) ||
+				(manifest.target && manifest.target !== buildType.target)
+			) {
+				logger.warn(
+					`Cached build is a ${cachedType} build, but a ${expectedType} build is needed`,
+				);
+				await record("miss");
+				return null;
+			}
+		}
 
 		try {
 			const result = await downloadAndMaybeExtractAppAsync(
-				buildDownloadURL,
+				(downloadOptions) => storage.download(entry, downloadOptions),
 				platform,
-				cachedAppPath,
+				{
+					cachedAppPath,
+					format: buildType.format,
+					expectedSha256: manifest?.sha256,
+					retries: options.downloadRetries,
+					retryDelayMs: options.downloadRetryDelayMs,
+				},
 			);
 			if (result) {
+				await touchCacheEntryAsync(result);
+				await maintainLocalCacheAsync(options, result);
+				await record("hit", entry.size);
 				return result;
 			}
 			logger.warn("Download completed but no valid app was extracted");
@@ -114,27 +233,20 @@ const fetchCachedBuild = async (
 			logger.error("Failed to download or extract the app", downloadError);
 		}
 	} catch (error) {
-		if (error instanceof Error && error.message.includes("No release found")) {
-			// This is an expected case when no cache exists, don't show stacktrace
-			logger.failSpinner("No cached builds available for this fingerprint");
-		} else {
-			// For unexpected errors, show more details
-			logger.failSpinner(
-				`Cache retrieval failed: ${error instanceof Error ? error.message : String(error)}`,
-			);
-		}
+		logger.failSpinner(
+			`Cache retrieval failed: ${error instanceof Error ? error.message : String(error)}`,
+		);
 	}
 
+	await record("error");
 	return null;
 };
 
 /**
- * Publishes a build artifact to GitHub Releases for caching
+ * Publishes a build artifact to the configured storage backend for caching
  *
- * @param {UploadRemoteBuildCacheProps} props - Build artifact properties
- * @param {object} githubConfig - GitHub repository configuration
- * @param {string} githubConfig.owner - Repository owner/organization name
- * @param {string} githubConfig.repo - Repository name
+ * @param {UploadBuildCacheProps} props - Build artifact properties
+ * @param {GitHubCacheOptions} options - Plugin options with the repository configuration
  * @returns {Promise<string|null>} - URL of the published artifact or null on failure
  */
 const publishBuildCache = async (
@@ -145,87 +257,147 @@ const publishBuildCache = async (
 		buildPath,
 		platform,
 	}: UploadBuildCacheProps,
-	{ owner, repo }: { owner: string; repo: string },
+	options: GitHubCacheOptions,
 ): Promise<string | null> => {
-	logger.startSpinner("Uploading build to Github Releases");
+	logger.configure(options);
+	if (options.runSummary !== false) {
+		printRunSummaryOnExit();
+	}
+
+	const skipReason = await getUploadSkipReasonAsync(projectRoot, options);
+	if (skipReason) {
+		logger.info(`Skipping build upload: ${skipReason}`);
+		return null;
+	}
+
+	const startedAt = Date.now();
+	let tagName = "";
+	const record = (outcome: CacheEventOutcome, bytes = 0) =>
+		recordCacheEventAsync(
+			{
+				operation: "upload",
+				outcome,
+				platform,
+				key: tagName,
+				bytes,
+				durationMs: Date.now() - startedAt,
+			},
+			{ options },
+		);
+
+	const storage = await getStorageBackend(options, "write");
+	if (!storage) {
+		await record("error");
+		return null;
+	}
+
+	logger.startSpinner(`Uploading build to ${storage.name}`);
 
 	try {
-		const tagName = getTagName({
-			fingerprintHash,
-			projectRoot,
-			runOptions,
-			platform,
-		});
-		const githubToken = await getGitHubToken();
-		if (!githubToken) {
-			logger.failSpinner("GitHub token not found");
-			logger.error(
-				"Missing GitHub token (set GITHUB_TOKEN or GH_TOKEN, or run `gh auth login`)",
-			);
-			return null;
-		}
+		tagName = getTagName(
+			{
+				fingerprintHash,
+				projectRoot,
+				runOptions,
+				platform,
+			},
+			options,
+		);
 
-		const result = await createReleaseAndUploadAsset({
-			token: githubToken,
-			owner,
-			repo,
-			tagName,
-			binaryPath: buildPath,
-		});
-		logger.succeedSpinner("Build successfully uploaded to GitHub Releases");
-		return result;
+		const buildType = detectBuildType(platform, buildPath, options);
+		const name = getBuildArtifactName(buildType);
+		const { filePath } = await prepareArtifactForUploadAsync(buildPath);
+		try {
+			const manifest = await createBuildManifestAsync({
+				fingerprintHash,
+				platform,
+				projectRoot,
+				runOptions,
+				filePath,
+				fileName: name,
+				buildType,
+			});
+
+			const result = await storage.upload({
+				key: tagName,
+				filePath,
+				name,
+				manifest,
+			});
+			logger.succeedSpinner(`Build successfully uploaded to ${storage.name}`);
+			await record("uploaded", manifest.size);
+			return result;
+		} finally {
+			if (filePath !== buildPath) {
+				await fs.remove(filePath);
+			}
+		}
 	} catch (error) {
 		logger.failSpinner("Release failed");
 		logger.error("Release failed", error);
 	}
 
+	await record("error");
 	return null;
 };
 
-/**
- * Generates a GitHub tag name for the build artifact based on its properties
- *
- * @param {Object} params - Parameters for tag generation
- * @param {string} params.fingerprintHash - Unique hash identifying the build content
- * @param {string} params.projectRoot - Project root directory path
- * @param {RunOptions} params.runOptions - Build run options
- * @param {"ios" | "android"} params.platform - Target platform
- * @returns {string} - Generated tag name for GitHub release
- */
-function getTagName({
-	fingerprintHash,
-	projectRoot,
-	runOptions,
-	platform,
-}: {
-	fingerprintHash: string;
-	projectRoot: string;
-	runOptions: RunOptions;
-	platform: "ios" | "android";
-}): string {
-	const isDevClient = isDevClientBuild({ projectRoot, runOptions });
-	return `fingerprint.${fingerprintHash}${isDevClient ? ".dev-client" : ""}.${platform}`;
-}
-
 /**
  * Generates the full path for a cached application file
  *
- * @param {ResolveRemoteBuildCacheProps} props - Build properties containing metadata
+ * @param {ResolveBuildCacheProps} props - Build properties containing metadata
+ * @param {GitHubCacheOptions} options - Plugin options
  * @returns {string} - Full path to the cached application file
  */
-function getCachedAppPath({
-	fingerprintHash,
-	platform,
-	projectRoot,
-	runOptions,
-}: ResolveBuildCacheProps): string {
+function getCachedAppPath(
+	{
+		fingerprintHash,
+		platform,
+		projectRoot,
+		runOptions,
+	}: ResolveBuildCacheProps,
+	options: GitHubCacheOptions,
+): string {
+	const tagName = getTagName(
+		{ fingerprintHash, projectRoot, runOptions, platform },
+		options,
+	);
+	const { format, target } = getExpectedBuildType(platform, options);
 	return path.join(
 		getBuildCacheDirectory(),
-		`${getTagName({ fingerprintHash, projectRoot, runOptions, platform })}.${platform === "ios" ? "app" : "apk"}`,
+		`${toCacheFileName(tagName)}${target === "device" ? ".device" : ""}.${format}`,
 	);
 }
 
+export type {
+	BuildSelectionOptions,
+	BuildVariantOptions,
+	ComputeTagNameOptions,
+	ListCachedBuildsOptions,
+	PublishBuildOptions,
+	ResolveBuildOptions,
+} from "./api";
+export {
+	clearLocalCache,
+	computeTagName,
+	listCachedBuilds,
+	publishBuild,
+	resolveBuild,
+} from "./api";
+export type { CacheEvent, PlatformCacheStats } from "./stats";
+export { getCacheStats } from "./stats";
+export type {
+	BuildManifest,
+	CacheEntry,
+	CacheStorageBackend,
+	DownloadStream,
+	GitHubCacheOptions,
+	LogFormat,
+	LogLevel,
+	RunOptions,
+	UploadParams,
+} from "./types";
+
 export default {
 	resolveBuildCache: fetchCachedBuild,
 	uploadBuildCache: publishBuildCache,
-} satisfies BuildCacheProviderPlugin;
+} satisfies BuildCacheProviderPlugin<GitHubCacheOptions>;
@@ -0,0 +1,254 @@
+/**
+ * Local build cache maintenance
+ *
+ * @fileOverview Keeps the local build-run-cache and temporary directory from growing forever
+ * @module local-cache
+ */
+
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import { logger } from "./logger";
+import type { GitHubCacheOptions } from "./types";
+import {
+	getBuildCacheDirectory,
+	getDownloadDirectory,
+	getTemporaryDirectory,
+} from "./utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Default maximum size of the local build cache (10 GiB) */
+const DEFAULT_MAX_SIZE_MB = 10 * 1024;
+
+/** Default maximum time since a cached build was last used */
+const DEFAULT_MAX_AGE_DAYS = 30;
+
+/** Temporary download and extraction directories older than this are removed */
+const STALE_TEMPORARY_ENTRY_MS = DAY_MS;
+
+/** Names of the uuid temporary directories and tarballs created during downloads and uploads */
+const TEMPORARY_ENTRY_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(\.tar\.gz)?$/i;
+
+/**
+ * Limits applied to the local build cache
+ */
+export interface LocalCachePolicy {
+	/** Maximum total size of all cached builds in bytes, 0 disables the limit */
+	maxSizeBytes: number;
+	/** Maximum time since a cached build was last used in milliseconds, 0 disables the limit */
+	maxAgeMs: number;
+}
+
+/**
+ * Parses a non-negative number from an option or environment variable
+ *
+ * @param {string} name - Setting name used in the warning for invalid values
+ * @param {number | string | undefined} value - Raw value
+ * @returns {number | undefined} - Parsed value or undefined when unset or invalid
+ */
+function parseLimit(
+	name: string,
+	value: number | string | undefined,
+): number | undefined {
+	if (value === undefined || value === "") {
+		return undefined;
+	}
+	const parsed = Number(value);
+	if (!Number.isFinite(parsed) || parsed < 0) {
+		logger.warn(`Ignoring invalid ${name} value "${value}"`);
+		return undefined;
+	}
+	return parsed;
+}
+
+/**
+ * Resolves the local cache limits from the plugin options and environment
+ *
+ * Plugin options take precedence over `EXPO_GITHUB_CACHE_MAX_SIZE_MB` and
+ * `EXPO_GITHUB_CACHE_MAX_AGE_DAYS`. A value of 0 disables the limit.
+ *
+ * @param {GitHubCacheOptions} [options] - Plugin options
+ * @returns {LocalCachePolicy} - Limits to enforce
+ */
+export function getLocalCachePolicy(
+	options: Partial<GitHubCacheOptions> = {},
+): LocalCachePolicy {
+	const maxSizeMB =
+		parseLimit("localCacheMaxSizeMB", options.localCacheMaxSizeMB) ??
+		parseLimit(
+			"EXPO_GITHUB_CACHE_MAX_SIZE_MB",
+			process.env.EXPO_GITHUB_CACHE_MAX_SIZE_MB,
+		) ??
+		DEFAULT_MAX_SIZE_MB;
+	const maxAgeDays =
+		parseLimit("localCacheMaxAgeDays", options.localCacheMaxAgeDays) ??
+		parseLimit(
+			"EXPO_GITHUB_CACHE_MAX_AGE_DAYS",
+			process.env.EXPO_GITHUB_CACHE_MAX_AGE_DAYS,
+		) ??
+		DEFAULT_MAX_AGE_DAYS;
+
+	return {
+		maxSizeBytes: maxSizeMB * 1024 * 1024,
+		maxAgeMs: maxAgeDays * DAY_MS,
+	};
+}
+
+/**
+ * Marks a cached build as used so it is evicted last
+ *
+ * @param {string} entryPath - Cached .app bundle or .apk file
+ * @returns {Promise<void>}
+ */
+export async function touchCacheEntryAsync(entryPath: string): Promise<void> {
+	const now = new Date();
+	await fs.utimes(entryPath, now, now);
+}
+
+/**
+ * Computes the size of a file or directory tree
+ *
+ * @param {string} entryPath - File or directory
+ * @returns {Promise<number>} - Size in bytes
+ */
+async function getEntrySize(entryPath: string): Promise<number> {
+	const stats = await fs.lstat(entryPath);
+	if (!stats.isDirectory()) {
+		return stats.size;
+	}
+
+	let size = 0;
+	for (const child of await fs.readdir(entryPath)) {
+		size += await getEntrySize(path.join(entryPath, child));
+	}
+	return size;
+}
+
+/**
+ * Removes cached builds that exceed the cache policy, least recently used first
+ *
+ * @param {LocalCachePolicy} policy - Limits to enforce
+ * @param {Object} [params] - Eviction parameters
+ * @param {string} [params.directory] - Cache directory, defaults to the build cache directory
+ * @param {string} [params.keep] - Entry that must not be evicted (e.g. the build being used)
+ * @returns {Promise<string[]>} - Paths of the removed entries
+ */
+export async function evictLocalCacheAsync(
+	{ maxSizeBytes, maxAgeMs }: LocalCachePolicy,
+	{
+		directory = getBuildCacheDirectory(),
+		keep,
+	}: { directory?: string; keep?: string } = {},
+): Promise<string[]> {
+	if (!(await fs.pathExists(directory))) {
+		return [];
+	}
+
+	const entries = await Promise.all(
+		(await fs.readdir(directory)).map(async (name) => {
+			const entryPath = path.join(directory, name);
+			const { mtimeMs } = await fs.lstat(entryPath);
+			return {
+				entryPath,
+				lastUsedMs: mtimeMs,
+				size: await getEntrySize(entryPath),
+			};
+		}),
+	);
+	// Least recently used first
+	entries.sort((a, b) => a.lastUsedMs - b.lastUsedMs);
+
+	const now = Date.now();
+	let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+	const evicted: string[] = [];
+
+	for (const entry of entries) {
+		if (keep && path.resolve(entry.entryPath) === path.resolve(keep)) {
+			continue;
+		}
+		const isExpired = maxAgeMs > 0 && now - entry.lastUsedMs > maxAgeMs;
+		const isOverSize = maxSizeBytes > 0 && totalSize > maxSizeBytes;
+		if (!isExpired && !isOverSize) {
+			continue;
+		}
+
+		await fs.remove(entry.entryPath);
+		totalSize -= entry.size;
+		evicted.push(entry.entryPath);
+	}
+
+	return evicted;
+}
+
+/**
+ * Removes leftover uuid directories and tarballs from interrupted downloads,
+ * extractions and uploads, and partial downloads no run has resumed
+ *
+ * @param {Object} [params] - Cleanup parameters
+ * @param {string} [params.directory] - Temporary directory, defaults to the application one
+ * @param {number} [params.maxAgeMs] - Minimum age of the entries to remove
+ * @returns {Promise<string[]>} - Paths of the removed entries
+ */
+export async function removeStaleTemporaryEntriesAsync({
+	directory = getTemporaryDirectory(),
+	maxAgeMs = STALE_TEMPORARY_ENTRY_MS,
+}: {
+	directory?: string;
+	maxAgeMs?: number;
+} = {}): Promise<string[]> {
+	if (!(await fs.pathExists(directory))) {
+		return [];
+	}
+
+	const entryPaths = (await fs.readdir(directory))
+		.filter((name) => TEMPORARY_ENTRY_PATTERN.test(name))
+		.map((name) => path.join(directory, name));
+	const downloadDirectory = getDownloadDirectory(directory);
+	if (await fs.pathExists(downloadDirectory)) {
+		for (const name of await fs.readdir(downloadDirectory)) {
+			entryPaths.push(path.join(downloadDirectory, name));
+		}
+	}
+
+	const removed: string[] = [];
+	const now = Date.now();
+	for (const entryPath of entryPaths) {
+		const { mtimeMs } = await fs.lstat(entryPath);
+		if (now - mtimeMs > maxAgeMs) {
+			await fs.remove(entryPath);
+			removed.push(entryPath);
+		}
+	}
+	return removed;
+}
+
+/**
+ * Applies the cache policy and removes stale temporary files
+ *
+ * Failures are logged as warnings since they never affect the build itself.
+ *
+ * @param {GitHubCacheOptions} options - Plugin options
+ * @param {string} [keep] - Cached build that is about to be used
+ * @returns {Promise<void>}
+ */
+export async function maintainLocalCacheAsync(
+	options: Partial<GitHubCacheOptions>,
+	keep?: string,
+): Promise<void> {
+	try {
+		const evicted = await evictLocalCacheAsync(getLocalCachePolicy(options), {
+			keep,
+		});
+		if (evicted.length > 0) {
+			logger.info(
+				`Evicted ${evicted.length} cached build${evicted.length === 1 ? "" : "s"} from the local cache`,
+			);
+		}
+		await removeStaleTemporaryEntriesAsync();
+	} catch (error) {
+		logger.warn(
+			`Local cache cleanup failed: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
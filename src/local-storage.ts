@@ -0,0 +1,166 @@
+/**
+ * Local filesystem storage backend
+ *
+ * @fileOverview Stores build artifacts in a directory, mainly for tests and shared network drives
+ * @module local-storage
+ */
+
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import {
+	isManifestFileName,
+	selectArtifact,
+	toManifestFileName,
+} from "./artifacts";
+import { logger } from "./logger";
+import { MANIFEST_FILE_NAME } from "./manifest";
+import type { CacheEntry, CacheStorageBackend } from "./types";
+
+/**
+ * Converts a cache key into a directory name that is safe on every platform
+ *
+ * @param {string} key - Cache key
+ * @returns {string} - Directory name for the key
+ */
+function toDirectoryName(key: string): string {
+	return key.replace(/[\\/:*?"<>|]/g, "_");
+}
+
+/**
+ * Reads the artifacts stored in a key directory
+ *
+ * @param {string} key - Cache key the directory belongs to
+ * @param {string} keyDirectory - Directory holding the artifacts
+ * @returns {Promise<CacheEntry[]>} - Stored artifacts, excluding manifests
+ */
+async function readEntries(
+	key: string,
+	keyDirectory: string,
+): Promise<CacheEntry[]> {
+	if (!(await fs.pathExists(keyDirectory))) {
+		return [];
+	}
+
+	const names = (await fs.readdir(keyDirectory))
+		.filter((fileName) => !isManifestFileName(fileName))
+		.sort();
+	return Promise.all(
+		names.map(async (name) => {
+			const filePath = path.join(keyDirectory, name);
+			const stats = await fs.stat(filePath);
+			return {
+				key,
+				name,
+				size: stats.size,
+				url: filePath,
+				createdAt: stats.mtime.toISOString(),
+			};
+		}),
+	);
+}
+
+/**
+ * Creates a storage backend that keeps artifacts in `<root>/<key>/<name>`
+ * with their manifests in `<root>/<key>/<name>.manifest.json`
+ *
+ * @param {Object} config - Backend configuration
+ * @param {string} config.root - Directory the artifacts are stored in
+ * @returns {CacheStorageBackend} - Local filesystem storage backend
+ */
+export function createLocalStorage({
+	root,
+}: {
+	root: string;
+}): CacheStorageBackend {
+	const keysFile = path.join(root, "keys.json");
+
+	/** Maps directory names back to their original keys */
+	async function readKeys(): Promise<Record<string, string>> {
+		return (await fs.pathExists(keysFile)) ? fs.readJson(keysFile) : {};
+	}
+
+	return {
+		name: `local storage (${root})`,
+
+		async lookup(key, selector) {
+			const entries = await readEntries(
+				key,
+				path.join(root, toDirectoryName(key)),
+			);
+			return selectArtifact(entries, selector) ?? null;
+		},
+
+		async download(entry, { offset = 0 } = {}) {
+			const { size } = await fs.stat(entry.url);
+			const start = Math.min(offset, size);
+			return {
+				body: fs.createReadStream(entry.url, { start }),
+				size: size - start,
+				resumed: start > 0,
+			};
+		},
+
+		async upload({ key, filePath, name, manifest }) {
+			const directoryName = toDirectoryName(key);
+			const keyDirectory = path.join(root, directoryName);
+			const destination = path.join(keyDirectory, name);
+
+			await fs.remove(destination);
+			await fs.copy(filePath, destination);
+			await fs.outputJson(
+				path.join(keyDirectory, toManifestFileName(name)),
+				manifest,
+				{
+					spaces: 2,
+				},
+			);
+			await fs.writeJson(keysFile, {
+				...(await readKeys()),
+				[directoryName]: key,
+			});
+			logger.info(`Stored ${name} in ${keyDirectory}`);
+
+			return destination;
+		},
+
+		async fetchManifest(key, name) {
+			const keyDirectory = path.join(root, toDirectoryName(key));
+			for (const manifestName of [
+				toManifestFileName(name),
+				MANIFEST_FILE_NAME,
+			]) {
+				const manifestPath = path.join(keyDirectory, manifestName);
+				if (await fs.pathExists(manifestPath)) {
+					const manifest = await fs.readJson(manifestPath);
+					// A legacy manifest.json only describes the artifact it names
+					return manifest.fileName === name ? manifest : null;
+				}
+			}
+			return null;
+		},
+
+		async delete(key) {
+			const directoryName = toDirectoryName(key);
+			const keyDirectory = path.join(root, directoryName);
+			if (!(await fs.pathExists(keyDirectory))) {
+				return false;
+			}
+
+			await fs.remove(keyDirectory);
+			const keys = await readKeys();
+			delete keys[directoryName];
+			await fs.writeJson(keysFile, keys);
+			return true;
+		},
+
+		async list() {
+			const entries: CacheEntry[] = [];
+			for (const [directoryName, key] of Object.entries(await readKeys())) {
+				entries.push(
+					...(await readEntries(key, path.join(root, directoryName))),
+				);
+			}
+			return entries;
+		},
+	};
+}
@@ -8,18 +8,148 @@ import chalk from "chalk";
 import figures from "figures";
 import logSymbols from "log-symbols";
 import ora from "ora";
+import type { GitHubCacheOptions, LogFormat, LogLevel } from "./types";
+
+/** Log levels from the most to the least verbose */
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+/** Minimum time between two progress lines when spinners are unavailable */
+const PROGRESS_INTERVAL_MS = 5000;
+
+/**
+ * Reads the log level from the environment
+ *
+ * `EXPO_GITHUB_CACHE_LOG_LEVEL` takes precedence over `EXPO_GITHUB_CACHE_VERBOSE`.
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment to read
+ * @returns {LogLevel} - Configured level, "info" by default
+ */
+function getLogLevelFromEnv(env: NodeJS.ProcessEnv): LogLevel {
+	const level = env.EXPO_GITHUB_CACHE_LOG_LEVEL?.toLowerCase() as LogLevel;
+	if (LOG_LEVELS.includes(level)) {
+		return level;
+	}
+	return ["1", "true"].includes(
+		env.EXPO_GITHUB_CACHE_VERBOSE?.toLowerCase() ?? "",
+	)
+		? "debug"
+		: "info";
+}
 
 /**
  * A modern logger for Expo GitHub Cache
  * Provides beautiful console output with spinners and icons
+ *
+ * Spinners are replaced by plain progress lines when the output is not a
+ * terminal, and every message becomes a JSON line in the "json" format.
  */
 export class Logger {
 	private spinner = ora();
 
+	/** Time the last progress line was printed without a spinner */
+	private lastProgressAt = 0;
+
+	/** Least severe level that is printed */
+	level: LogLevel;
+
+	/** "text" for human readable output, "json" for one JSON object per line on stderr */
+	format: LogFormat;
+
+	/** Whether spinners can be drawn, i.e. stderr is a terminal */
+	interactive: boolean;
+
+	/**
+	 * @param {NodeJS.ProcessEnv} [env] - Environment with `EXPO_GITHUB_CACHE_LOG_LEVEL` and `EXPO_GITHUB_CACHE_LOG_FORMAT`
+	 * @param {boolean} [interactive] - Whether the output is a terminal
+	 */
+	constructor(
+		env: NodeJS.ProcessEnv = process.env,
+		interactive = Boolean(process.stderr.isTTY) && env.TERM !== "dumb",
+	) {
+		this.level = getLogLevelFromEnv(env);
+		this.format =
+			env.EXPO_GITHUB_CACHE_LOG_FORMAT?.toLowerCase() === "json"
+				? "json"
+				: "text";
+		this.interactive = interactive;
+	}
+
+	/**
+	 * Applies the logging options of the plugin, which take precedence over the environment
+	 */
+	configure({
+		logLevel,
+		logFormat,
+		verbose,
+	}: Pick<GitHubCacheOptions, "logLevel" | "logFormat" | "verbose">): void {
+		if (logLevel) {
+			this.level = logLevel;
+		} else if (verbose) {
+			this.level = "debug";
+		}
+		if (logFormat) {
+			this.format = logFormat;
+		}
+	}
+
+	/**
+	 * Checks whether messages of a level are printed
+	 */
+	isEnabled(level: Exclude<LogLevel, "silent">): boolean {
+		return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+	}
+
+	/**
+	 * Writes a message as a JSON line
+	 */
+	private writeJson(
+		level: Exclude<LogLevel, "silent">,
+		message: string,
+		error?: unknown,
+	): void {
+		const entry: Record<string, string> = {
+			time: new Date().toISOString(),
+			level,
+			message,
+		};
+		if (error !== undefined) {
+			entry.error = error instanceof Error ? error.message : String(error);
+		}
+		process.stderr.write(`${JSON.stringify(entry)}\n`);
+	}
+
+	/**
+	 * Whether progress is shown with a spinner rather than plain lines
+	 */
+	private get useSpinner(): boolean {
+		return this.format === "text" && this.interactive && this.isEnabled("info");
+	}
+
+	/**
+	 * Log a debug message, only shown at the "debug" level
+	 */
+	debug(message: string): void {
+		if (!this.isEnabled("debug")) {
+			return;
+		}
+		if (this.format === "json") {
+			this.writeJson("debug", message);
+			return;
+		}
+		console.log(chalk.gray(`${figures.pointerSmall} ${message}`));
+	}
+
 	/**
 	 * Log an informational message
 	 */
 	info(message: string): void {
+		if (!this.isEnabled("info")) {
+			return;
+		}
+		if (this.format === "json") {
+			this.writeJson("info", message);
+			return;
+		}
 		console.log(`${chalk.blue(figures.info)} ${message}`);
 	}
 
@@ -27,6 +157,13 @@ export class Logger {
 	 * Log a success message
 	 */
 	success(message: string): void {
+		if (!this.isEnabled("info")) {
+			return;
+		}
+		if (this.format === "json") {
+			this.writeJson("info", message);
+			return;
+		}
 		console.log(`${logSymbols.success} ${chalk.green(message)}`);
 	}
 
@@ -34,6 +171,13 @@ export class Logger {
 	 * Log an error message
 	 */
 	error(message: string, error?: unknown): void {
+		if (!this.isEnabled("error")) {
+			return;
+		}
+		if (this.format === "json") {
+			this.writeJson("error", message, error);
+			return;
+		}
 		console.error(`${logSymbols.error} ${chalk.red(message)}`);
 		if (error instanceof Error) {
 			console.error(chalk.red(`  └─ ${error.message}`));
@@ -46,6 +190,13 @@ export class Logger {
 	 * Log a warning message
 	 */
 	warn(message: string): void {
+		if (!this.isEnabled("warn")) {
+			return;
+		}
+		if (this.format === "json") {
+			this.writeJson("warn", message);
+			return;
+		}
 		console.warn(`${logSymbols.warning} ${chalk.yellow(message)}`);
 	}
 
@@ -53,28 +204,77 @@ export class Logger {
 	 * Start a spinner with the given message
 	 */
 	startSpinner(message: string): void {
-		this.spinner.start(message);
+		if (this.useSpinner) {
+			this.spinner.start(message);
+			return;
+		}
+		this.lastProgressAt = Date.now();
+		this.progress(message);
 	}
 
 	/**
 	 * Update the spinner message
+	 *
+	 * Without a spinner, updates are printed at most every five seconds.
 	 */
 	updateSpinner(message: string): void {
-		this.spinner.text = message;
+		if (this.useSpinner) {
+			this.spinner.text = message;
+			return;
+		}
+		if (Date.now() - this.lastProgressAt < PROGRESS_INTERVAL_MS) {
+			return;
+		}
+		this.lastProgressAt = Date.now();
+		this.progress(message);
 	}
 
 	/**
 	 * Stop the spinner with a success message
 	 */
 	succeedSpinner(message: string): void {
-		this.spinner.succeed(chalk.green(message));
+		if (this.useSpinner) {
+			this.spinner.succeed(chalk.green(message));
+			return;
+		}
+		this.success(message);
 	}
 
 	/**
-	 * Stop the spinner with an error message
+	 * Stop the spinner with a failure message
+	 *
+	 * @param {string} message - Failure message
+	 * @param {"info" | "warn" | "error"} [level] - Severity, "info" or "warn" for expected outcomes such as a cache miss
 	 */
-	failSpinner(message: string): void {
-		this.spinner.fail(chalk.red(message));
+	failSpinner(
+		message: string,
+		level: "info" | "warn" | "error" = "error",
+	): void {
+		if (this.useSpinner) {
+			if (level === "info") {
+				this.spinner.info(message);
+			} else if (level === "warn") {
+				this.spinner.warn(chalk.yellow(message));
+			} else {
+				this.spinner.fail(chalk.red(message));
+			}
+			return;
+		}
+		this[level](message);
+	}
+
+	/**
+	 * Print a progress line in place of a spinner
+	 */
+	private progress(message: string): void {
+		if (!this.isEnabled("info")) {
+			return;
+		}
+		if (this.format === "json") {
+			this.writeJson("info", message);
+			return;
+		}
+		console.log(`${chalk.gray(figures.ellipsis)} ${message}`);
 	}
 }
 
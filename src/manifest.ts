@@ -0,0 +1,134 @@
+/**
+ * Build metadata manifests
+ *
+ * @fileOverview Creates and summarizes the manifest stored next to every cached build
+ * @module manifest
+ */
+
+import * as os from "node:os";
+import * as spawnAsyncModule from "@expo/spawn-async";
+import * as fs from "fs-extra";
+import type { BuildType } from "./artifacts";
+import type { BuildManifest, RunOptions } from "./types";
+import { computeFileSha256Async, isDevClientBuild } from "./utils";
+
+const spawnAsync = spawnAsyncModule.default || spawnAsyncModule;
+
+/** File name the manifest is stored under next to the build artifact */
+export const MANIFEST_FILE_NAME = "manifest.json";
+
+/**
+ * Reads the commit SHA checked out in the project
+ *
+ * @param {string} projectRoot - Project root directory path
+ * @returns {Promise<string | null>} - Commit SHA or null outside of a git checkout
+ */
+export async function getGitCommitShaAsync(
+	projectRoot: string,
+): Promise<string | null> {
+	try {
+		const { stdout } = await spawnAsync("git", ["rev-parse", "HEAD"], {
+			cwd: projectRoot,
+			stdio: ["ignore", "pipe", "pipe"],
+		});
+		return stdout.toString().trim() || null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Reads the version of the `expo` package installed in the project
+ *
+ * @param {string} projectRoot - Project root directory path
+ * @returns {string | null} - Installed Expo version or null if it cannot be resolved
+ */
+export function getExpoSdkVersion(projectRoot: string): string | null {
+	try {
+		const packageJsonPath = require.resolve("expo/package.json", {
+			paths: [projectRoot],
+		});
+		return fs.readJsonSync(packageJsonPath).version ?? null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Creates the manifest describing an artifact that is about to be uploaded
+ *
+ * @param {Object} params - Build and artifact information
+ * @param {string} params.fingerprintHash - Fingerprint hash of the build
+ * @param {"ios" | "android"} params.platform - Target platform
+ * @param {string} params.projectRoot - Project root directory path
+ * @param {RunOptions} params.runOptions - Build run options
+ * @param {string} params.filePath - Artifact file that will be uploaded
+ * @param {string} params.fileName - Name the artifact will be uploaded as
+ * @param {BuildType} [params.buildType] - Format and simulator or device target of the build
+ * @returns {Promise<BuildManifest>} - Manifest for the artifact
+ */
+export async function createBuildManifestAsync({
+	fingerprintHash,
+	platform,
+	projectRoot,
+	runOptions,
+	filePath,
+	fileName,
+	buildType,
+}: {
+	fingerprintHash: string;
+	platform: "ios" | "android";
+	projectRoot: string;
+	runOptions: RunOptions;
+	filePath: string;
+	fileName: string;
+	buildType?: BuildType;
+}): Promise<BuildManifest> {
+	const { size } = await fs.stat(filePath);
+
+	return {
+		schemaVersion: 1,
+		fingerprintHash,
+		platform,
+		devClient: isDevClientBuild({ projectRoot, runOptions }),
+		variant: "variant" in runOptions ? runOptions.variant : undefined,
+		configuration:
+			"configuration" in runOptions ? runOptions.configuration : undefined,
+		target: buildType?.target,
+		format: buildType?.format,
+		gitSha: await getGitCommitShaAsync(projectRoot),
+		sdkVersion: getExpoSdkVersion(projectRoot),
+		fileName,
+		size,
+		sha256: await computeFileSha256Async(filePath),
+		createdAt: new Date().toISOString(),
+		machine: {
+			hostname: os.hostname(),
+			os: `${os.platform()} ${os.release()}`,
+			arch: os.arch(),
+			nodeVersion: process.version,
+		},
+	};
+}
+
+/**
+ * Formats the human readable lines logged before downloading a build
+ *
+ * @param {BuildManifest} manifest - Manifest of the cached build
+ * @returns {string[]} - Summary lines
+ */
+export function formatManifestSummary(manifest: BuildManifest): string[] {
+	const buildType = [
+		manifest.variant ?? manifest.configuration ?? "default configuration",
+		manifest.target,
+		manifest.format,
+	]
+		.filter(Boolean)
+		.join(" ");
+
+	return [
+		`Built ${manifest.createdAt} on ${manifest.machine.hostname} (${manifest.machine.os}, ${manifest.machine.arch})`,
+		`Commit: ${manifest.gitSha ? manifest.gitSha.substring(0, 7) : "unknown"}, Expo SDK: ${manifest.sdkVersion ?? "unknown"}`,
+		`Build: ${manifest.platform} ${buildType}${manifest.devClient ? " (dev client)" : ""}, ${manifest.fileName} ${(manifest.size / 1024 / 1024).toFixed(2)} MB`,
+	];
+}
@@ -0,0 +1,170 @@
+/**
+ * Remote cache pruning
+ *
+ * @fileOverview Deletes old cached builds from the storage backend
+ * @module prune
+ */
+
+import { logger } from "./logger";
+import { parseTagName, type TagNamingOptions } from "./tag-name";
+import type { CacheStorageBackend } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Age after which keys left without a build by failed uploads are removed */
+const INCOMPLETE_MIN_AGE_DAYS = 1;
+
+/**
+ * Rules deciding which cached builds are removed
+ */
+export interface RemotePruneOptions extends TagNamingOptions {
+	/** Remove builds created more than this many days ago */
+	olderThanDays?: number;
+	/** Keep only this many of the newest builds per platform */
+	keepPerPlatform?: number;
+	/** Only report what would be removed */
+	dryRun?: boolean;
+}
+
+/**
+ * Cached build selected for removal
+ */
+export interface PruneCandidate {
+	/** Cache key (tag name) of the build */
+	key: string;
+	/** Target platform parsed from the key */
+	platform: "ios" | "android";
+	/** Creation time of the newest artifact stored under the key */
+	createdAt: string | undefined;
+	/** Total size of the artifacts stored under the key in bytes */
+	size: number;
+	/**
+	 * Why the build was selected; "incomplete" keys hold no build, only what a
+	 * failed upload left behind (e.g. an empty release or a tag)
+	 */
+	reason: "age" | "count" | "incomplete";
+}
+
+/**
+ * Selects and deletes cached builds that are older than the age limit or
+ * beyond the newest builds to keep per platform
+ *
+ * Keys that do not follow the configured tag scheme are never touched, and
+ * neither are builds whose age is unknown. Keys left without a build by failed
+ * uploads are removed once they are older than the age limit, or than a day
+ * when only a number of builds to keep is given.
+ *
+ * @param {CacheStorageBackend} storage - Storage backend to prune
+ * @param {RemotePruneOptions} options - Pruning rules
+ * @returns {Promise<PruneCandidate[]>} - Builds that were removed, or would be in dry-run mode
+ * @throws {Error} - When no pruning rule is given
+ */
+export async function pruneRemoteCacheAsync(
+	storage: CacheStorageBackend,
+	{
+		olderThanDays,
+		keepPerPlatform,
+		dryRun = false,
+		...tagNamingOptions
+	}: RemotePruneOptions,
+): Promise<PruneCandidate[]> {
+	if (olderThanDays === undefined && keepPerPlatform === undefined) {
+		throw new Error(
+			"Remote pruning needs an age limit (olderThanDays) or a number of builds to keep (keepPerPlatform)",
+		);
+	}
+
+	// A key may hold several artifacts; group them into one build per key
+	const builds = new Map<
+		string,
+		Omit<PruneCandidate, "reason"> & { createdAtMs: number }
+	>();
+	for (const entry of await storage.list()) {
+		const parsed = parseTagName(entry.key, tagNamingOptions);
+		if (!parsed) {
+			continue;
+		}
+		const createdAtMs = entry.createdAt
+			? Date.parse(entry.createdAt)
+			: Number.NaN;
+		const build = builds.get(entry.key);
+		if (!build) {
+			builds.set(entry.key, {
+				key: entry.key,
+				platform: parsed.platform,
+				createdAt: entry.createdAt,
+				createdAtMs,
+				size: entry.size,
+			});
+		} else {
+			build.size += entry.size;
+			if (Number.isNaN(build.createdAtMs) || createdAtMs > build.createdAtMs) {
+				build.createdAt = entry.createdAt;
+				build.createdAtMs = createdAtMs;
+			}
+		}
+	}
+
+	const now = Date.now();
+	const keptPerPlatform = { ios: 0, android: 0 };
+	const candidates: PruneCandidate[] = [];
+
+	// Builds of unknown age are kept, as neither rule can place them
+	const datedBuilds = [...builds.values()].filter(({ key, createdAtMs }) => {
+		if (Number.isNaN(createdAtMs)) {
+			logger.debug(`Keeping ${key}, its creation time is unknown`);
+			return false;
+		}
+		return true;
+	});
+
+	// Newest first so the builds to keep are counted before older ones
+	for (const { createdAtMs, ...build } of datedBuilds.sort(
+		(a, b) => b.createdAtMs - a.createdAtMs,
+	)) {
+		if (
+			olderThanDays !== undefined &&
+			now - createdAtMs > olderThanDays * DAY_MS
+		) {
+			candidates.push({ ...build, reason: "age" });
+		} else if (
+			keepPerPlatform !== undefined &&
+			keptPerPlatform[build.platform] >= keepPerPlatform
+		) {
+			candidates.push({ ...build, reason: "count" });
+		} else {
+			keptPerPlatform[build.platform]++;
+		}
+	}
+
+	// Builds are only listed while their artifact exists; failed uploads may
+	// leave releases, tags or refs behind that no longer hold one
+	const incompleteAgeMs = (olderThanDays ?? INCOMPLETE_MIN_AGE_DAYS) * DAY_MS;
+	for (const { key, createdAt } of (await storage.listKeys?.()) ?? []) {
+		const parsed = parseTagName(key, tagNamingOptions);
+		if (!parsed || builds.has(key)) {
+			continue;
+		}
+		const createdAtMs = createdAt ? Date.parse(createdAt) : Number.NaN;
+		if (now - createdAtMs > incompleteAgeMs) {
+			candidates.push({
+				key,
+				platform: parsed.platform,
+				createdAt,
+				size: 0,
+				reason: "incomplete",
+			});
+		}
+	}
+
+	for (const candidate of candidates) {
+		const description = `${candidate.key} (${(candidate.size / 1024 / 1024).toFixed(1)} MB, created ${candidate.createdAt ?? "at an unknown time"})`;
+		if (dryRun) {
+			logger.info(`Would delete ${description}`);
+			continue;
+		}
+		await storage.delete(candidate.key);
+		logger.info(`Deleted ${description}`);
+	}
+
+	return candidates;
+}
@@ -0,0 +1,316 @@
+/**
+ * Cache usage statistics
+ *
+ * @fileOverview Records cache hits, misses and uploads locally and summarizes them
+ * @module stats
+ */
+
+import * as path from "node:path";
+import * as fs from "fs-extra";
+import { logger } from "./logger";
+import type { GitHubCacheOptions } from "./types";
+import { getTemporaryDirectory } from "./utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Oldest events are dropped once the stats file holds more than this many */
+const MAX_RECORDED_EVENTS = 5000;
+
+/**
+ * Outcome of a cache operation
+ * - "hit": the build was downloaded from the storage backend
+ * - "local-hit": the build was already in the local cache
+ * - "miss": no matching build was cached
+ * - "uploaded": the build was published
+ * - "error": the lookup, download or upload failed
+ */
+export type CacheEventOutcome =
+	| "hit"
+	| "local-hit"
+	| "miss"
+	| "uploaded"
+	| "error";
+
+/**
+ * A recorded resolve or upload
+ */
+export interface CacheEvent {
+	/** Time the operation finished as an ISO 8601 string */
+	time: string;
+	/** "resolve" when restoring a build, "upload" when publishing one */
+	operation: "resolve" | "upload";
+	/** Outcome of the operation */
+	outcome: CacheEventOutcome;
+	/** Target platform */
+	platform: "ios" | "android";
+	/** Cache key (tag name) of the build */
+	key: string;
+	/** Bytes downloaded or uploaded */
+	bytes: number;
+	/** Duration of the operation in milliseconds */
+	durationMs: number;
+}
+
+/**
+ * Aggregated statistics of one platform
+ */
+export interface PlatformCacheStats {
+	/** Target platform */
+	platform: "ios" | "android";
+	/** Number of resolves */
+	resolves: number;
+	/** Builds downloaded from the storage backend */
+	hits: number;
+	/** Builds found in the local cache */
+	localHits: number;
+	/** Resolves without a matching build */
+	misses: number;
+	/** Failed resolves and uploads */
+	errors: number;
+	/** Share of resolves answered from a cache, between 0 and 1 */
+	hitRate: number;
+	/** Number of published builds */
+	uploads: number;
+	/** Bytes downloaded from the storage backend */
+	bytesDownloaded: number;
+	/** Bytes uploaded to the storage backend */
+	bytesUploaded: number;
+	/** Time spent resolving builds in milliseconds */
+	resolveDurationMs: number;
+}
+
+/** Events recorded by this process, printed as a summary on exit */
+const runEvents: CacheEvent[] = [];
+
+let runSummaryScheduled = false;
+
+/**
+ * Returns the path of the stats file
+ *
+ * It lives next to, not inside, the local build cache, so evicting or
+ * clearing cached builds keeps the history.
+ *
+ * @returns {string} - Stats file path
+ */
+export function getStatsFilePath(): string {
+	return path.join(getTemporaryDirectory(), "stats.json");
+}
+
+/**
+ * Reads the recorded cache events
+ *
+ * @param {Object} [params] - Read parameters
+ * @param {string} [params.file] - Stats file, defaults to the one in the temporary directory
+ * @returns {Promise<CacheEvent[]>} - Events, oldest first; empty when none were recorded
+ */
+export async function readCacheEventsAsync({
+	file = getStatsFilePath(),
+}: {
+	file?: string;
+} = {}): Promise<CacheEvent[]> {
+	try {
+		const { events } = await fs.readJson(file);
+		return Array.isArray(events) ? events : [];
+	} catch {
+		// A missing or corrupt file only loses statistics
+		return [];
+	}
+}
+
+/**
+ * Records the outcome of a resolve or upload
+ *
+ * The event is appended to the stats file and included in the run summary.
+ * Failures are logged at the debug level since statistics never affect the
+ * build.
+ *
+ * @param {Omit<CacheEvent, "time">} event - Operation to record
+ * @param {Object} [params] - Recording parameters
+ * @param {GitHubCacheOptions} [params.options] - Plugin options, `recordStats: false` disables the stats file
+ * @param {string} [params.file] - Stats file, defaults to the one in the temporary directory
+ * @returns {Promise<void>}
+ */
+export async function recordCacheEventAsync(
+	event: Omit<CacheEvent, "time">,
+	{
+		options = {},
+		file = getStatsFilePath(),
+	}: { options?: Partial<GitHubCacheOptions>; file?: string } = {},
+): Promise<void> {
+	const recorded: CacheEvent = { time: new Date().toISOString(), ...event };
+	runEvents.push(recorded);
+
+	if (options.recordStats === false) {
+		return;
+	}
+	try {
+		const events = [...(await readCacheEventsAsync({ file })), recorded].slice(
+			-MAX_RECORDED_EVENTS,
+		);
+		await fs.mkdirp(path.dirname(file));
+		// Parallel builds may write at the same time, a rename never leaves a partial file
+		const temporaryFile = `${file}.${process.pid}.tmp`;
+		await fs.writeJson(temporaryFile, { version: 1, events });
+		await fs.move(temporaryFile, file, { overwrite: true });
+	} catch (error) {
+		logger.debug(
+			`Cannot record cache statistics: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
+/**
+ * Aggregates cache events per platform
+ *
+ * @param {CacheEvent[]} events - Events to aggregate
+ * @param {Object} [params] - Aggregation parameters
+ * @param {number} [params.sinceDays] - Only include events of this many past days
+ * @param {number} [params.now] - Current time in milliseconds
+ * @returns {PlatformCacheStats[]} - Statistics of every platform with events
+ */
+export function summarizeCacheEvents(
+	events: CacheEvent[],
+	{ sinceDays, now = Date.now() }: { sinceDays?: number; now?: number } = {},
+): PlatformCacheStats[] {
+	const stats = new Map<"ios" | "android", PlatformCacheStats>();
+
+	for (const event of events) {
+		if (
+			sinceDays !== undefined &&
+			now - Date.parse(event.time) > sinceDays * DAY_MS
+		) {
+			continue;
+		}
+
+		let platformStats = stats.get(event.platform);
+		if (!platformStats) {
+			platformStats = {
+				platform: event.platform,
+				resolves: 0,
+				hits: 0,
+				localHits: 0,
+				misses: 0,
+				errors: 0,
+				hitRate: 0,
+				uploads: 0,
+				bytesDownloaded: 0,
+				bytesUploaded: 0,
+				resolveDurationMs: 0,
+			};
+			stats.set(event.platform, platformStats);
+		}
+
+		if (event.operation === "upload") {
+			if (event.outcome === "uploaded") {
+				platformStats.uploads++;
+				platformStats.bytesUploaded += event.bytes;
+			} else {
+				platformStats.errors++;
+			}
+			continue;
+		}
+
+		platformStats.resolves++;
+		platformStats.resolveDurationMs += event.durationMs;
+		platformStats.bytesDownloaded += event.bytes;
+		if (event.outcome === "hit") {
+			platformStats.hits++;
+		} else if (event.outcome === "local-hit") {
+			platformStats.localHits++;
+		} else if (event.outcome === "miss") {
+			platformStats.misses++;
+		} else {
+			platformStats.errors++;
+		}
+	}
+
+	return [...stats.values()].map((platformStats) => ({
+		...platformStats,
+		hitRate:
+			platformStats.resolves > 0
+				? (platformStats.hits + platformStats.localHits) /
+					platformStats.resolves
+				: 0,
+	}));
+}
+
+/**
+ * Aggregates the recorded cache events of this machine per platform
+ *
+ * @param {Object} [params] - Aggregation parameters
+ * @param {number} [params.sinceDays] - Only include events of this many past days
+ * @param {string} [params.file] - Stats file, defaults to the one in the temporary directory
+ * @returns {Promise<PlatformCacheStats[]>} - Statistics of every platform with events
+ */
+export async function getCacheStats({
+	sinceDays,
+	file,
+}: {
+	sinceDays?: number;
+	file?: string;
+} = {}): Promise<PlatformCacheStats[]> {
+	return summarizeCacheEvents(await readCacheEventsAsync({ file }), {
+		sinceDays,
+	});
+}
+
+/**
+ * Formats a byte count as megabytes
+ */
+function formatMegabytes(bytes: number): string {
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Formats the statistics of a platform as a single line
+ *
+ * @param {PlatformCacheStats} stats - Statistics to format
+ * @returns {string} - Line such as "android: 75% hit rate over 4 resolves (...)"
+ */
+export function formatPlatformStats(stats: PlatformCacheStats): string {
+	return `${stats.platform}: ${Math.round(stats.hitRate * 100)}% hit rate over ${stats.resolves} resolve(s) (${stats.hits} downloaded, ${stats.localHits} local, ${stats.misses} missed, ${stats.errors} failed), ${formatMegabytes(stats.bytesDownloaded)} downloaded, ${stats.uploads} upload(s) with ${formatMegabytes(stats.bytesUploaded)}`;
+}
+
+/**
+ * Formats a recorded event for the end-of-run summary
+ *
+ * @param {CacheEvent} event - Event to format
+ * @returns {string} - Line such as "android fingerprint.abc.android: hit, 45.2 MB in 12.3s"
+ */
+export function formatCacheEvent(event: CacheEvent): string {
+	return `${event.platform} ${event.key}: ${event.outcome}${event.bytes > 0 ? `, ${formatMegabytes(event.bytes)}` : ""} in ${(event.durationMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Prints a summary of the cache operations of this process when it exits
+ *
+ * The summary goes to stderr, stdout may be captured by a script.
+ */
+export function printRunSummaryOnExit(): void {
+	if (runSummaryScheduled) {
+		return;
+	}
+	runSummaryScheduled = true;
+	process.once("exit", printRunSummary);
+}
+
+/**
+ * Prints the cache operations of this process
+ */
+function printRunSummary(): void {
+	if (runEvents.length === 0 || !logger.isEnabled("info")) {
+		return;
+	}
+	const lines = [
+		"Build cache summary:",
+		...runEvents.map((event) => `  ${formatCacheEvent(event)}`),
+	];
+	if (logger.format === "json") {
+		// JSON log lines are written to stderr already
+		for (const line of lines) {
+			logger.info(line);
+		}
+		return;
+	}
+	console.error(lines.join("\n"));
+}
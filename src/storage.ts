@@ -0,0 +1,148 @@
+/**
+ * Storage backend selection
+ *
+ * @fileOverview Creates the cache storage backend configured through the plugin options
+ * @module storage
+ */
+
+import * as path from "node:path";
+import { createActionsArtifactsStorage } from "./actions-artifacts";
+import { createGitHubReleasesStorage } from "./github";
+import { verifyRepositoryAccessAsync } from "./github-access";
+import { getGitHubToken } from "./github-auth";
+import { createLocalStorage } from "./local-storage";
+import { logger } from "./logger";
+import { parseTagName } from "./tag-name";
+import type { CacheStorageBackend, GitHubCacheOptions } from "./types";
+import { getTemporaryDirectory } from "./utils";
+
+/**
+ * Returns the default root directory of the "local" storage backend
+ *
+ * @returns {string} - Local storage directory path
+ */
+export function getDefaultLocalStoragePath(): string {
+	return path.join(getTemporaryDirectory(), "local-storage");
+}
+
+/**
+ * Resolves the GitHub token required by the GitHub based backends
+ *
+ * @param {GitHubCacheOptions} options - Plugin options with the GitHub instance and app credentials
+ * @returns {Promise<string>} - GitHub token
+ * @throws {Error} - When no token is available
+ */
+async function requireGitHubToken(
+	options: GitHubCacheOptions,
+): Promise<string> {
+	const token = await getGitHubToken(options);
+	if (!token) {
+		throw new Error(
+			"Missing GitHub token (set GITHUB_TOKEN or GH_TOKEN, configure a GitHub App, or run `gh auth login`)",
+		);
+	}
+	return token;
+}
+
+/**
+ * Resolves a GitHub token for backends that can read public repositories without one
+ *
+ * @param {GitHubCacheOptions} options - Plugin options with the GitHub instance and app credentials
+ * @returns {Promise<string | null>} - GitHub token or null for anonymous access
+ */
+async function getOptionalGitHubToken(
+	options: GitHubCacheOptions,
+): Promise<string | null> {
+	const token = await getGitHubToken(options);
+	if (!token) {
+		logger.info(
+			"No GitHub token found, looking up public release assets anonymously",
+		);
+	}
+	return token;
+}
+
+/**
+ * Creates the storage backend selected by the plugin options
+ *
+ * Custom backend implementations are returned as they are, bundled backends
+ * are created from the remaining options. Read access to the GitHub Releases
+ * backend works without a token, which is enough for the published releases
+ * of public repositories. Tokens are checked against the repository before
+ * the backend is used.
+ *
+ * @param {GitHubCacheOptions} options - Plugin options
+ * @param {Object} [params] - Backend parameters
+ * @param {"read" | "write"} [params.access] - Whether the backend is only used to look up and download builds (default "write")
+ * @returns {Promise<CacheStorageBackend>} - Storage backend to use for the current run
+ * @throws {Error} - When the backend requires a GitHub token and none is available, or the token cannot access the repository
+ */
+export async function createStorageBackend(
+	options: GitHubCacheOptions,
+	{ access = "write" }: { access?: "read" | "write" } = {},
+): Promise<CacheStorageBackend> {
+	const { storage = "github-releases" } = options;
+	const isCacheKey = (key: string) => parseTagName(key, options) !== null;
+
+	if (typeof storage === "object") {
+		return storage;
+	}
+
+	switch (storage) {
+		case "local":
+			return createLocalStorage({
+				root: options.localStoragePath ?? getDefaultLocalStoragePath(),
+			});
+		case "github-releases": {
+			// Draft releases are only visible to tokens with push access
+			const releaseAccess = options.releaseMode === "draft" ? "write" : access;
+			const token =
+				releaseAccess === "read"
+					? await getOptionalGitHubToken(options)
+					: await requireGitHubToken(options);
+			if (token) {
+				await verifyRepositoryAccessAsync({
+					token,
+					owner: options.owner,
+					repo: options.repo,
+					apiUrl: options.apiUrl,
+					access: releaseAccess,
+				});
+			}
+			return createGitHubReleasesStorage({
+				token,
+				owner: options.owner,
+				repo: options.repo,
+				apiUrl: options.apiUrl,
+				isCacheKey,
+				targetCommitish: options.targetCommitish,
+				tagLocalCommit: options.tagLocalCommit,
+				releaseMode: options.releaseMode,
+				refNamespace: options.refNamespace,
+			});
+		}
+		case "github-actions-artifacts": {
+			const token = await requireGitHubToken(options);
+			// Uploads use the job's runtime token, but the API token deletes the
+			// artifacts a new upload replaces
+			await verifyRepositoryAccessAsync({
+				token,
+				owner: options.owner,
+				repo: options.repo,
+				apiUrl: options.apiUrl,
+				access,
+				permission: "actions",
+			});
+			return createActionsArtifactsStorage({
+				token,
+				owner: options.owner,
+				repo: options.repo,
+				apiUrl: options.apiUrl,
+				retentionDays: options.artifactRetentionDays,
+				isCacheKey,
+			});
+		}
+		default:
+			throw new Error(`Unknown storage backend "${storage}"`);
+	}
+}
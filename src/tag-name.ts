@@ -0,0 +1,231 @@
+/**
+ * Cache tag naming
+ *
+ * @fileOverview Builds and parses the tag names cached builds are stored under
+ * @module tag-name
+ */
+
+import * as path from "node:path";
+import { getPackageJson } from "@expo/config";
+import type { GitHubCacheOptions, RunOptions } from "./types";
+import { isDevClientBuild } from "./utils";
+
+/** Prefix of every cache tag unless configured otherwise */
+export const DEFAULT_TAG_PREFIX = "fingerprint.";
+
+/** Template producing `fingerprint.<hash>[.dev-client][.<variant>].<platform>` with the default prefix */
+export const DEFAULT_TAG_TEMPLATE =
+	"{prefix}{fingerprint}{devClient}{variant}.{platform}";
+
+/** Placeholders a tag template may contain */
+const PLACEHOLDER_PATTERN =
+	/\{(prefix|app|fingerprint|devClient|variant|platform)\}/g;
+
+/** Patterns the placeholders match when parsing a tag name */
+const PLACEHOLDER_CAPTURES: Record<string, string> = {
+	app: "(?<app>.+?)",
+	fingerprint: "(?<fingerprint>[A-Za-z0-9_-]+)",
+	devClient: "(?<devClient>\\.dev-client)?",
+	variant: "(?:\\.(?<variant>[a-z0-9-]+))?",
+	platform: "(?<platform>ios|android)",
+};
+
+/**
+ * Tag naming options of the plugin
+ */
+export type TagNamingOptions = Pick<
+	GitHubCacheOptions,
+	"tagPrefix" | "tagTemplate" | "variantInCacheKey"
+>;
+
+/**
+ * Build properties encoded in a cache tag name
+ */
+export interface ParsedTagName {
+	/** Fingerprint hash of the build */
+	fingerprintHash: string;
+	/** Target platform */
+	platform: "ios" | "android";
+	/** Whether the build is a development client build */
+	devClient: boolean;
+	/** Normalized variant, scheme and configuration of non-default builds */
+	variant?: string;
+}
+
+/**
+ * Returns the configured tag template after checking that it identifies a build
+ *
+ * @param {TagNamingOptions} options - Tag naming options
+ * @returns {string} - Tag template
+ * @throws {Error} - When the template lacks the fingerprint or platform
+ */
+function getTagTemplate({
+	tagTemplate = DEFAULT_TAG_TEMPLATE,
+}: TagNamingOptions): string {
+	if (
+		!tagTemplate.includes("{fingerprint}") ||
+		!tagTemplate.includes("{platform}")
+	) {
+		throw new Error(
+			`Invalid tagTemplate "${tagTemplate}": it must contain {fingerprint} and {platform}`,
+		);
+	}
+	return tagTemplate;
+}
+
+/**
+ * Reads the app name used for the `{app}` placeholder from the project's package.json
+ *
+ * @param {string} projectRoot - Project root directory path
+ * @returns {string} - Package name reduced to characters that are valid in a tag
+ */
+function getAppName(projectRoot: string): string {
+	let name: string | undefined;
+	try {
+		name = getPackageJson(projectRoot).name;
+	} catch {
+		// Fall back to the directory name below
+	}
+	return (name ?? path.basename(projectRoot))
+		.replace(/^@/, "")
+		.replace(/[^A-Za-z0-9._-]+/g, "-");
+}
+
+/**
+ * Returns the normalized build variant that tells builds of one fingerprint apart
+ *
+ * The Android variant (including its flavor, e.g. "stagingRelease") and the iOS
+ * scheme and configuration are converted to lowercase, dash separated names.
+ * The default `debug` variant and `Debug` configuration are left out so
+ * default builds keep the tag they had before variants were part of it.
+ *
+ * @param {RunOptions} runOptions - Build run options
+ * @returns {string} - Variant name, e.g. "staging-release", or "" for default builds
+ */
+export function getBuildVariant(runOptions: RunOptions): string {
+	const parts: string[] = [];
+	if ("scheme" in runOptions && typeof runOptions.scheme === "string") {
+		parts.push(runOptions.scheme);
+	}
+	if (
+		"configuration" in runOptions &&
+		runOptions.configuration &&
+		runOptions.configuration !== "Debug"
+	) {
+		parts.push(runOptions.configuration);
+	}
+	if (
+		"variant" in runOptions &&
+		runOptions.variant &&
+		runOptions.variant !== "debug"
+	) {
+		parts.push(runOptions.variant);
+	}
+	return parts
+		.join("-")
+		.replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Generates a GitHub tag name for the build artifact based on its properties
+ *
+ * The name follows the `tagTemplate` option, where `{prefix}`, `{app}`,
+ * `{fingerprint}`, `{devClient}` (".dev-client" or nothing), `{variant}`
+ * (".<variant>" or nothing) and `{platform}` are replaced with the build
+ * properties. `{variant}` stays empty when `variantInCacheKey` is false.
+ *
+ * @param {Object} params - Parameters for tag generation
+ * @param {string} params.fingerprintHash - Unique hash identifying the build content
+ * @param {string} params.projectRoot - Project root directory path
+ * @param {RunOptions} params.runOptions - Build run options
+ * @param {"ios" | "android"} params.platform - Target platform
+ * @param {TagNamingOptions} [options] - Tag naming options
+ * @returns {string} - Generated tag name for GitHub release
+ * @throws {Error} - When the tag template is invalid
+ */
+export function getTagName(
+	{
+		fingerprintHash,
+		projectRoot,
+		runOptions,
+		platform,
+	}: {
+		fingerprintHash: string;
+		projectRoot: string;
+		runOptions: RunOptions;
+		platform: "ios" | "android";
+	},
+	options: TagNamingOptions = {},
+): string {
+	const template = getTagTemplate(options);
+	const isDevClient = isDevClientBuild({ projectRoot, runOptions });
+	const variant =
+		options.variantInCacheKey === false ? "" : getBuildVariant(runOptions);
+	const values: Record<string, () => string> = {
+		prefix: () => options.tagPrefix ?? DEFAULT_TAG_PREFIX,
+		app: () => getAppName(projectRoot),
+		fingerprint: () => fingerprintHash,
+		devClient: () => (isDevClient ? ".dev-client" : ""),
+		variant: () => (variant ? `.${variant}` : ""),
+		platform: () => platform,
+	};
+	return template.replace(PLACEHOLDER_PATTERN, (_, name: string) =>
+		(values[name] as () => string)(),
+	);
+}
+
+/**
+ * Converts a tag name into a file name for the local build cache
+ *
+ * @param {string} tagName - Cache tag name
+ * @returns {string} - Tag name without path separators
+ */
+export function toCacheFileName(tagName: string): string {
+	return tagName.replace(/[\\/:*?"<>|]/g, "_");
+}
+
+/**
+ * Reads the build properties back from a tag name created by `getTagName`
+ *
+ * Path separators in the template also match "_" so keys of backends that
+ * cannot store them (e.g. Actions artifact names) are recognized as well.
+ *
+ * @param {string} tagName - Cache tag name
+ * @param {TagNamingOptions} [options] - Tag naming options the tag was created with
+ * @returns {ParsedTagName | null} - Build properties or null for tags outside the cache scheme
+ */
+export function parseTagName(
+	tagName: string,
+	options: TagNamingOptions = {},
+): ParsedTagName | null {
+	const template = getTagTemplate(options);
+	const escapeLiteral = (literal: string) =>
+		literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\//g, "[/_]");
+
+	let pattern = "";
+	let lastIndex = 0;
+	for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+		const [placeholder, name] = match as unknown as [string, string];
+		pattern += escapeLiteral(template.slice(lastIndex, match.index));
+		pattern +=
+			name === "prefix"
+				? escapeLiteral(options.tagPrefix ?? DEFAULT_TAG_PREFIX)
+				: PLACEHOLDER_CAPTURES[name];
+		lastIndex = (match.index ?? 0) + placeholder.length;
+	}
+	pattern += escapeLiteral(template.slice(lastIndex));
+
+	const groups = tagName.match(new RegExp(`^${pattern}$`))?.groups;
+	if (!groups?.fingerprint || !groups.platform) {
+		return null;
+	}
+	return {
+		fingerprintHash: groups.fingerprint,
+		platform: groups.platform as "ios" | "android",
+		devClient: Boolean(groups.devClient),
+		variant: groups.variant,
+	};
+}
@@ -12,3 +12,278 @@ import type { ResolveRemoteBuildCacheProps } from "@expo/config";
  * Contains platform-specific build configuration settings
  */
 export type RunOptions = ResolveRemoteBuildCacheProps["runOptions"];
+
+/**
+ * Names of the storage backends bundled with the plugin
+ */
+export type StorageBackendName =
+	| "github-releases"
+	| "github-actions-artifacts"
+	| "local";
+
+/**
+ * How the GitHub Releases backend publishes builds
+ *
+ * - "tag": prerelease with an annotated tag named after the cache key
+ * - "draft": draft release named after the cache key, no git tag is created
+ */
+export type ReleaseMode = "tag" | "draft";
+
+/**
+ * Least severe messages that are printed, "silent" prints nothing
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Output format of log messages
+ * - "text": colored messages and spinners
+ * - "json": one JSON object per message on stderr
+ */
+export type LogFormat = "text" | "json";
+
+/**
+ * Whether an iOS build runs on a simulator or a physical device
+ */
+export type BuildTarget = "simulator" | "device";
+
+/**
+ * File format of a cached build
+ *
+ * - "app": iOS .app bundle, stored as a tarball
+ * - "ipa": iOS device archive
+ * - "apk": Android APK, including universal APKs
+ * - "aab": Android App Bundle
+ */
+export type ArtifactFormat = "app" | "ipa" | "apk" | "aab";
+
+/**
+ * Describes which of the artifacts stored under a key a lookup expects
+ */
+export interface ArtifactSelector {
+	/** Exact artifact name, e.g. "ios-simulator.app.tar.gz" */
+	name?: string;
+	/** Extensions accepted for artifacts that do not follow the naming scheme */
+	extensions?: string[];
+}
+
+/**
+ * A single build artifact stored by a cache storage backend
+ */
+export interface CacheEntry {
+	/** Cache key the artifact is stored under (the generated tag name) */
+	key: string;
+	/** File name of the stored artifact */
+	name: string;
+	/** Artifact size in bytes */
+	size: number;
+	/** Backend specific location used to download the artifact */
+	url: string;
+	/** Location the artifact can be downloaded from without authentication, if the backend has one */
+	publicUrl?: string;
+	/** ISO 8601 timestamp of when the artifact was stored, if known */
+	createdAt?: string;
+}
+
+/**
+ * Readable artifact data returned by a storage backend
+ */
+export interface DownloadStream {
+	/** Stream of the artifact bytes */
+	body: NodeJS.ReadableStream;
+	/** Size of the streamed bytes, or 0 when unknown */
+	size: number;
+	/**
+	 * Whether the stream starts at the requested offset. Backends that cannot
+	 * resume leave this unset and stream the artifact from the beginning.
+	 */
+	resumed?: boolean;
+}
+
+/**
+ * Options for opening an artifact download
+ */
+export interface DownloadOptions {
+	/** Byte offset to resume an interrupted download from */
+	offset?: number;
+}
+
+/**
+ * Metadata describing how a cached build was produced
+ *
+ * Stored as `<artifact name>.manifest.json` next to every uploaded artifact.
+ */
+export interface BuildManifest {
+	/** Version of the manifest format */
+	schemaVersion: 1;
+	/** Fingerprint hash the build was cached under */
+	fingerprintHash: string;
+	/** Target platform */
+	platform: "ios" | "android";
+	/** Whether the build is a development client build */
+	devClient: boolean;
+	/** Android build variant, if one was passed to `expo run:android` */
+	variant?: string;
+	/** iOS build configuration, if one was passed to `expo run:ios` */
+	configuration?: string;
+	/** Whether an iOS build is a simulator or device build */
+	target?: BuildTarget;
+	/** File format of the build */
+	format?: ArtifactFormat;
+	/** Git commit SHA checked out when the build was made, if available */
+	gitSha: string | null;
+	/** Version of the `expo` package installed in the project, if available */
+	sdkVersion: string | null;
+	/** Name of the uploaded artifact */
+	fileName: string;
+	/** Size of the uploaded artifact in bytes */
+	size: number;
+	/** Hex encoded SHA-256 digest of the uploaded artifact */
+	sha256: string;
+	/** ISO 8601 timestamp of when the manifest was created */
+	createdAt: string;
+	/** Machine that produced the build */
+	machine: {
+		hostname: string;
+		os: string;
+		arch: string;
+		nodeVersion: string;
+	};
+}
+
+/**
+ * Parameters for storing a build artifact
+ */
+export interface UploadParams {
+	/** Cache key to store the artifact under */
+	key: string;
+	/** Filesystem path to the artifact file to upload (directories are archived beforehand) */
+	filePath: string;
+	/** Name to store the artifact file under */
+	name: string;
+	/** Metadata to store next to the artifact */
+	manifest: BuildManifest;
+}
+
+/**
+ * Key a storage backend holds data under, with or without a build
+ */
+export interface StoredKey {
+	/** Cache key */
+	key: string;
+	/** ISO 8601 timestamp of when the data was stored, if known */
+	createdAt?: string;
+}
+
+/**
+ * Storage backend used to persist and retrieve cached builds
+ *
+ * Implementations only deal with opaque keys and artifact files; tag naming,
+ * local caching and extraction are handled by the plugin itself.
+ */
+export interface CacheStorageBackend {
+	/** Human readable backend name used in log output */
+	readonly name: string;
+	/**
+	 * Finds the artifact stored under a key, or null when none exists. Keys may
+	 * hold several artifacts, the selector picks one of them (see `selectArtifact`)
+	 */
+	lookup(key: string, selector?: ArtifactSelector): Promise<CacheEntry | null>;
+	/** Opens a stream of the artifact data for an entry returned by lookup or list */
+	download(
+		entry: CacheEntry,
+		options?: DownloadOptions,
+	): Promise<DownloadStream>;
+	/**
+	 * Stores an artifact and its manifest under a key, replacing an artifact with
+	 * the same name, and returns a reference to it (e.g. a URL)
+	 */
+	upload(params: UploadParams): Promise<string>;
+	/** Reads the manifest of an artifact stored under a key, or null when none exists */
+	fetchManifest?(key: string, name: string): Promise<BuildManifest | null>;
+	/** Removes all artifacts stored under a key, returns false if nothing was stored */
+	delete(key: string): Promise<boolean>;
+	/** Lists every artifact managed by the backend, excluding manifests */
+	list(): Promise<CacheEntry[]>;
+	/**
+	 * Lists every key data is stored under, including keys that failed uploads
+	 * left without a build (e.g. empty releases or tags without a release)
+	 */
+	listKeys?(): Promise<StoredKey[]>;
+}
+
+/**
+ * Options accepted by the plugin through `buildCacheProvider.options`
+ */
+export interface GitHubCacheOptions {
+	/** Repository owner or organization name */
+	owner: string;
+	/** Repository name */
+	repo: string;
+	/**
+	 * REST API base URL of a GitHub Enterprise Server, e.g. "https://github.example.com/api/v3"
+	 * (default: `GITHUB_API_URL`, otherwise https://api.github.com)
+	 */
+	apiUrl?: string;
+	/** GitHub App ID or client ID to authenticate as instead of a token (default: `GITHUB_APP_ID`) */
+	appId?: string | number;
+	/** Path of the GitHub App's private key file (default: `GITHUB_APP_PRIVATE_KEY_PATH`) */
+	appPrivateKeyPath?: string;
+	/** ID of the GitHub App installation on the repository owner (default: `GITHUB_APP_INSTALLATION_ID`) */
+	appInstallationId?: string | number;
+	/**
+	 * Storage backend to use, either a bundled backend name or a custom
+	 * implementation (only possible from `app.config.js`). Defaults to "github-releases".
+	 */
+	storage?: StorageBackendName | CacheStorageBackend;
+	/** Root directory used by the "local" storage backend */
+	localStoragePath?: string;
+	/** Retention in days for builds stored by the "github-actions-artifacts" backend */
+	artifactRetentionDays?: number;
+	/** Number of times an interrupted download is resumed before giving up (default 3) */
+	downloadRetries?: number;
+	/** Delay before the first download retry in milliseconds, doubled on every retry (default 1000) */
+	downloadRetryDelayMs?: number;
+	/** Maximum size of the local build cache in MB, 0 disables the limit (default 10240) */
+	localCacheMaxSizeMB?: number;
+	/** Days after which an unused local build is evicted, 0 disables the limit (default 30) */
+	localCacheMaxAgeDays?: number;
+	/** Prefix inserted for `{prefix}` in the tag template (default "fingerprint.") */
+	tagPrefix?: string;
+	/**
+	 * Template for the tag (cache key) of a build, e.g. `{app}/{platform}/{fingerprint}{devClient}{variant}`.
+	 * Must contain `{fingerprint}` and `{platform}` (default `{prefix}{fingerprint}{devClient}{variant}.{platform}`)
+	 */
+	tagTemplate?: string;
+	/** Include the Android variant or iOS scheme and configuration in the cache key (default true) */
+	variantInCacheKey?: boolean;
+	/** Branch, tag or commit SHA new release tags point at (default: the repository's default branch) */
+	targetCommitish?: string;
+	/** Tag the locally checked out commit the build was made from when it has been pushed (default false) */
+	tagLocalCommit?: boolean;
+	/** Whether `expo run:ios` builds are restored as simulator or device builds (default "simulator") */
+	iosBuildTarget?: BuildTarget;
+	/** Whether iOS builds are restored as .app bundles or .ipa files (default "app") */
+	iosArtifactFormat?: "app" | "ipa";
+	/** Whether Android builds are restored as APKs or App Bundles (default "apk") */
+	androidArtifactFormat?: "apk" | "aab";
+	/** "tag" (default) creates a prerelease and annotated tag, "draft" an untagged draft release */
+	releaseMode?: ReleaseMode;
+	/** Lightweight refs recording the built commit are created under this namespace, e.g. "refs/expo-cache" */
+	refNamespace?: string;
+	/** Never publish builds, only restore them (default: `EXPO_GITHUB_CACHE_READ_ONLY`, otherwise false) */
+	readOnly?: boolean;
+	/** Only publish builds when running on a CI provider (default false) */
+	uploadOnlyInCI?: boolean;
+	/** Branches builds may be published from, `*` matches any characters (default: every branch) */
+	uploadBranches?: string[];
+	/** Print debug output such as the remaining GitHub API quota (default: `EXPO_GITHUB_CACHE_VERBOSE`) */
+	verbose?: boolean;
+	/** Least severe messages to print, takes precedence over `verbose` (default: `EXPO_GITHUB_CACHE_LOG_LEVEL`, otherwise "info") */
+	logLevel?: LogLevel;
+	/** "json" prints one JSON object per message (default: `EXPO_GITHUB_CACHE_LOG_FORMAT`, otherwise "text") */
+	logFormat?: LogFormat;
+	/** Record cache hits, misses and uploads in a local stats file (default true) */
+	recordStats?: boolean;
+	/** Print a summary of the cache operations to stderr when the process exits (default true, the Node API defaults to false and the CLI never prints it) */
+	runSummary?: boolean;
+}
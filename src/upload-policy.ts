@@ -0,0 +1,158 @@
+/**
+ * Upload policy
+ *
+ * @fileOverview Decides whether builds may be published from the current machine and branch
+ * @module upload-policy
+ */
+
+import * as spawnAsyncModule from "@expo/spawn-async";
+import type { GitHubCacheOptions } from "./types";
+
+const spawnAsync = spawnAsyncModule.default || spawnAsyncModule;
+
+/** Environment variables set by common CI providers */
+const CI_ENVIRONMENT_VARIABLES = [
+	"CI",
+	"GITHUB_ACTIONS",
+	"GITLAB_CI",
+	"CIRCLECI",
+	"BUILDKITE",
+	"BITRISE_IO",
+	"JENKINS_URL",
+	"TF_BUILD",
+	"TRAVIS",
+	"CODEBUILD_BUILD_ID",
+	"TEAMCITY_VERSION",
+	"APPVEYOR",
+	"EAS_BUILD",
+];
+
+/** Environment variables holding the branch being built, in order of preference */
+const CI_BRANCH_VARIABLES = [
+	// Pull requests build a merge commit, GITHUB_HEAD_REF names the source branch
+	"GITHUB_HEAD_REF",
+	"GITHUB_REF_NAME",
+	"CI_COMMIT_REF_NAME",
+	"CIRCLE_BRANCH",
+	"BUILDKITE_BRANCH",
+	"BITRISE_GIT_BRANCH",
+	"BRANCH_NAME",
+	"EAS_BUILD_GIT_BRANCH",
+];
+
+/**
+ * Checks whether the process runs on a CI provider
+ *
+ * @param {NodeJS.ProcessEnv} [env] - Environment to inspect
+ * @returns {boolean} - True when a known CI environment variable is set
+ */
+export function isCIEnvironment(env: NodeJS.ProcessEnv = process.env): boolean {
+	return CI_ENVIRONMENT_VARIABLES.some(
+		(name) => !!env[name] && env[name] !== "false" && env[name] !== "0",
+	);
+}
+
+/**
+ * Resolves the branch being built
+ *
+ * CI providers check out detached commits, so their branch variables are
+ * preferred over the branch checked out in the project.
+ *
+ * @param {string} projectRoot - Project root directory path
+ * @param {NodeJS.ProcessEnv} [env] - Environment to inspect
+ * @returns {Promise<string | null>} - Branch name or null when it cannot be determined
+ */
+export async function getCurrentBranchAsync(
+	projectRoot: string,
+	env: NodeJS.ProcessEnv = process.env,
+): Promise<string | null> {
+	for (const name of CI_BRANCH_VARIABLES) {
+		if (env[name]) {
+			return env[name];
+		}
+	}
+
+	try {
+		const { stdout } = await spawnAsync(
+			"git",
+			["rev-parse", "--abbrev-ref", "HEAD"],
+			{ cwd: projectRoot, stdio: ["ignore", "pipe", "pipe"] },
+		);
+		const branch = stdout.toString().trim();
+		// A detached HEAD has no branch
+		return branch && branch !== "HEAD" ? branch : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Checks whether a branch matches an allowlist entry, where `*` matches any
+ * sequence of characters (e.g. "release/*")
+ *
+ * @param {string} branch - Branch name
+ * @param {string} pattern - Allowlist entry
+ * @returns {boolean} - True when the branch matches
+ */
+export function matchesBranchPattern(branch: string, pattern: string): boolean {
+	const source = pattern
+		.split("*")
+		.map((literal) => literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*");
+	return new RegExp(`^${source}$`).test(branch);
+}
+
+/**
+ * Checks whether the cache is read-only
+ *
+ * The `readOnly` option takes precedence over `EXPO_GITHUB_CACHE_READ_ONLY`.
+ *
+ * @param {GitHubCacheOptions} options - Plugin options
+ * @param {NodeJS.ProcessEnv} [env] - Environment to inspect
+ * @returns {boolean} - True when builds must not be published
+ */
+export function isReadOnly(
+	options: Partial<GitHubCacheOptions>,
+	env: NodeJS.ProcessEnv = process.env,
+): boolean {
+	if (options.readOnly !== undefined) {
+		return options.readOnly;
+	}
+	const value = env.EXPO_GITHUB_CACHE_READ_ONLY?.toLowerCase();
+	return value === "1" || value === "true";
+}
+
+/**
+ * Returns why a build must not be published, if anything prevents it
+ *
+ * @param {string} projectRoot - Project root directory path
+ * @param {GitHubCacheOptions} options - Plugin options with the upload policy
+ * @param {NodeJS.ProcessEnv} [env] - Environment to inspect
+ * @returns {Promise<string | null>} - Reason the upload is skipped or null when it may proceed
+ */
+export async function getUploadSkipReasonAsync(
+	projectRoot: string,
+	options: Partial<GitHubCacheOptions>,
+	env: NodeJS.ProcessEnv = process.env,
+): Promise<string | null> {
+	if (isReadOnly(options, env)) {
+		return "the build cache is read-only";
+	}
+	if (options.uploadOnlyInCI && !isCIEnvironment(env)) {
+		return "uploads are only allowed in CI";
+	}
+	if (options.uploadBranches) {
+		const branch = await getCurrentBranchAsync(projectRoot, env);
+		if (!branch) {
+			return "the current branch cannot be determined and uploadBranches is set";
+		}
+		if (
+			!options.uploadBranches.some((pattern) =>
+				matchesBranchPattern(branch, pattern),
+			)
+		) {
+			return `branch "${branch}" is not in uploadBranches`;
+		}
+	}
+	return null;
+}
@@ -5,9 +5,16 @@
  * @module utils
  */
 
+import { createHash } from "node:crypto";
 import * as path from "node:path";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
 import { getPackageJson } from "@expo/config";
 import envPaths from "env-paths";
+import * as fs from "fs-extra";
+import { create as createTar } from "tar";
+import { uuidv7 } from "uuidv7";
+import { logger } from "./logger";
 import type { RunOptions } from "./types";
 
 // Define application-specific temporary directory path
@@ -59,10 +66,13 @@ export function detectDevClientDependency(projectRoot: string): boolean {
 /**
  * Returns the application temporary directory path
  *
+ * `EXPO_GITHUB_CACHE_TEMP_DIR` overrides the default location, which holds the
+ * local build cache, the statistics and temporary downloads.
+ *
  * @returns {string} - Temporary directory path
  */
 export function getTemporaryDirectory(): string {
-	return APP_TEMP_DIRECTORY;
+	return process.env.EXPO_GITHUB_CACHE_TEMP_DIR || APP_TEMP_DIRECTORY;
 }
 
 /**
@@ -73,3 +83,89 @@ export function getTemporaryDirectory(): string {
 export function getBuildCacheDirectory(): string {
 	return path.join(getTemporaryDirectory(), "build-run-cache");
 }
+
+/**
+ * Returns the path for artifacts being downloaded, including partial downloads
+ * kept for the next run
+ *
+ * @param {string} [temporaryDirectory] - Temporary directory, defaults to the application one
+ * @returns {string} - Download directory path
+ */
+export function getDownloadDirectory(
+	temporaryDirectory = getTemporaryDirectory(),
+): string {
+	return path.join(temporaryDirectory, "downloads");
+}
+
+/**
+ * Resolves the file that should be stored for a build artifact
+ *
+ * Directories (such as iOS .app bundles) are archived into a gzipped tarball
+ * inside the temporary directory; regular files are used as they are.
+ *
+ * @param {string} binaryPath - Path to the build artifact file or directory
+ * @returns {Promise<{filePath: string, name: string}>} - File to upload and its asset name
+ */
+export async function prepareArtifactForUploadAsync(
+	binaryPath: string,
+): Promise<{ filePath: string; name: string }> {
+	const name = path.basename(binaryPath);
+
+	if (!(await fs.stat(binaryPath)).isDirectory()) {
+		return { filePath: binaryPath, name };
+	}
+
+	logger.info("Asset is a directory, creating tarball");
+	await fs.mkdirp(getTemporaryDirectory());
+	const tarPath = path.join(getTemporaryDirectory(), `${uuidv7()}.tar.gz`);
+
+	logger.startSpinner("Creating tarball from directory");
+	await createTar(
+		{ cwd: path.dirname(binaryPath), file: tarPath, gzip: true },
+		[name],
+	);
+	logger.succeedSpinner(`Tarball created at ${path.basename(tarPath)}`);
+
+	return { filePath: tarPath, name: `${name}.tar.gz` };
+}
+
+/**
+ * Computes the SHA-256 digest of a file without loading it into memory
+ *
+ * @param {string} filePath - File to hash
+ * @returns {Promise<string>} - Hex encoded digest
+ */
+export async function computeFileSha256Async(
+	filePath: string,
+): Promise<string> {
+	const hash = createHash("sha256");
+	await pipeline(fs.createReadStream(filePath), hash);
+	return hash.digest("hex");
+}
+
+/**
+ * Creates a pass-through stream that reports transferred bytes on the spinner
+ *
+ * @param {number} totalBytes - Expected number of bytes
+ * @param {string} label - Spinner text shown before the progress
+ * @returns {Transform} - Stream to pipe the transferred data through
+ */
+export function createProgressStream(
+	totalBytes: number,
+	label: string,
+): Transform {
+	let transferredBytes = 0;
+	const totalMB = (totalBytes / 1024 / 1024).toFixed(1);
+
+	return new Transform({
+		transform(chunk, _encoding, callback) {
+			transferredBytes += chunk.length;
+			const percent =
+				totalBytes > 0 ? Math.floor((transferredBytes / totalBytes) * 100) : 0;
+			logger.updateSpinner(
+				`${label} ${(transferredBytes / 1024 / 1024).toFixed(1)}MB / ${totalMB}MB (${percent}%)`,
+			);
+			callback(null, chunk);
+		},
+	});
+}